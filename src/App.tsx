@@ -1,62 +1,584 @@
-import { useState } from "react";
-import type { AppState } from "./types";
-import { listTables, fetchTableEntities } from "./services/azureTableService";
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { AppState, ConnectionOption, ConnectionProfile, EntityQuery, EntityWriteMode, ImportWriteMode, SortKey, TableEntity, TableInfo } from "./types";
+import {
+  listTables,
+  fetchEntityPage,
+  fetchTableEntities,
+  fetchTableEntity,
+  createTable,
+  deleteTable,
+  getTableInfo,
+  listPartitions,
+  type PartitionSummary,
+  createTableEntity,
+  updateTableEntity,
+  upsertTableEntity,
+  deleteTableEntity,
+  submitEntityBatch,
+  fetchExistingKeys,
+  type WritableEntity,
+} from "./services/azureTableService";
+import { checkEmulatorHealth, getLocalEmulatorEndpoint, resolveEmulatorConnectionString } from "./services/emulator";
+import { getEntityKey } from "./utils/entityUtils";
+import { describeError, isAbortError } from "./utils/errorUtils";
+import { getAccountId } from "./utils/connectionStringUtils";
+import { createPartitionQuery } from "./utils/odataUtils";
+import { formatRoute, getRouteForState, isSameView, parseRoute, type AppRoute } from "./utils/routeUtils";
+import { STORAGE_KEY_PAGE_SIZE } from "./constants/storage";
+import { DEFAULT_PAGE_SIZE } from "./constants/paging";
+import { CURRENT_CONNECTION_ID } from "./constants/profiles";
+import { useConnectionProfiles } from "./hooks/useConnectionProfiles";
 import { ConnectionForm } from "./components/ConnectionForm";
+import { ConnectionManager } from "./components/ConnectionManager";
+import { ProfileSwitcher } from "./components/ProfileSwitcher";
+import { VaultPanel } from "./components/VaultPanel";
 import { TableSelector } from "./components/TableSelector";
 import { TableViewer } from "./components/TableViewer";
+import { TableCompare } from "./components/TableCompare";
 
 function App() {
   const [state, setState] = useState<AppState>({ status: "disconnected" });
+  const [pageSize, setPageSize] = useState(() =>
+    Number(localStorage.getItem(STORAGE_KEY_PAGE_SIZE)) || DEFAULT_PAGE_SIZE
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { profiles, addProfile, updateProfile, duplicateProfile, deleteProfile, markUsed, vault } = useConnectionProfiles();
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState<TableEntity | null>(null);
+  const [initialRoute] = useState(() => parseRoute(window.location.hash));
+  // Route aus der Start-URL, bis ihr Profil verfügbar ist (z. B. erst nach dem Entsperren des Tresors)
+  const pendingRouteRef = useRef<AppRoute | null>(initialRoute.profile ? initialRoute : null);
+  // Während eine Route angewendet wird, dürfen Zwischenzustände die URL nicht überschreiben
+  const isApplyingRouteRef = useRef(false);
+  const activeProfileName = profiles.find((p) => p.id === activeProfileId)?.name;
+  // Ausgangstabelle beim Öffnen des Vergleichs
+  const [compare, setCompare] = useState<{ tableName?: string } | null>(null);
+
+  const startRequest = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
 
-  const handleConnect = async (connectionString: string) => {
+  const cancelRequest = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Ein abgebrochener Request, der durch einen neueren ersetzt wurde, darf den State nicht mehr ändern
+  const isCurrentRequest = (signal: AbortSignal) => abortControllerRef.current?.signal === signal;
+
+  const loadTables = async (connectionString: string): Promise<string[] | null> => {
+    const abortSignal = startRequest();
     setState({ status: "loading-tables" });
     try {
       const tables = await listTables(connectionString);
+      if (!isCurrentRequest(abortSignal)) return null;
       setState({ status: "tables-loaded", connectionString, tables });
+      return tables;
+    } catch (error) {
+      if (!isCurrentRequest(abortSignal)) return null;
+      setState({ status: "error", ...describeError(error), connectionString });
+      return null;
+    }
+  };
+
+  const loadTableData = async (
+    connectionString: string,
+    tables: string[],
+    tableName: string,
+    query?: EntityQuery
+  ): Promise<TableEntity[] | null> => {
+    const abortSignal = startRequest();
+    setState({ status: "loading-data", connectionString, tables, selectedTable: tableName, query });
+
+    try {
+      const page = await fetchEntityPage(connectionString, tableName, { query, pageSize, abortSignal });
+      if (!isCurrentRequest(abortSignal)) return null;
+      setState({
+        status: "connected",
+        connectionString,
+        tables,
+        tableName,
+        entities: page.entities,
+        query,
+        continuationToken: page.continuationToken,
+        isLoadingMore: false,
+      });
+      return page.entities;
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unbekannter Fehler";
-      setState({ status: "error", message, connectionString });
+      if (!isCurrentRequest(abortSignal)) return null;
+      if (isAbortError(error)) {
+        setState({ status: "tables-loaded", connectionString, tables });
+        return null;
+      }
+      setState({ status: "error", ...describeError(error), connectionString });
+      return null;
+    }
+  };
+
+  // Lokale Emulatoren vorab prüfen und mit selbst signiertem SAS ansprechen
+  const resolveConnection = async (connectionString: string): Promise<string | null> => {
+    const emulatorEndpoint = getLocalEmulatorEndpoint(connectionString);
+    if (!emulatorEndpoint) return connectionString;
+
+    const abortSignal = startRequest();
+    setState({ status: "loading-tables" });
+    try {
+      await checkEmulatorHealth(emulatorEndpoint, abortSignal);
+      const resolved = await resolveEmulatorConnectionString(connectionString);
+      return isCurrentRequest(abortSignal) ? resolved : null;
+    } catch (error) {
+      if (isCurrentRequest(abortSignal)) setState({ status: "error", ...describeError(error), connectionString });
+      return null;
+    }
+  };
+
+  // Ein Tabellen-SAS darf keine Tabellen auflisten, daher wird die Tabelle direkt geöffnet
+  const openConnection = async (connectionString: string, tableName?: string) => {
+    const resolved = await resolveConnection(connectionString);
+    if (!resolved) return;
+
+    if (tableName) {
+      await loadTableData(resolved, [tableName], tableName);
+    } else {
+      await loadTables(resolved);
+    }
+  };
+
+  const resetView = () => {
+    setSortKeys([]);
+    setSelectedEntity(null);
+  };
+
+  const handleConnect = async (connectionString: string, profileName?: string, tableName?: string) => {
+    pendingRouteRef.current = null;
+    resetView();
+    if (profileName) {
+      const profile = addProfile({
+        name: profileName,
+        connectionString,
+        color: "blue",
+        environment: "",
+        tableName,
+        lastUsed: new Date().toISOString(),
+      });
+      setActiveProfileId(profile.id);
+    } else {
+      setActiveProfileId(null);
     }
+    await openConnection(connectionString, tableName);
+  };
+
+  const handleConnectProfile = async (profile: ConnectionProfile) => {
+    pendingRouteRef.current = null;
+    resetView();
+    markUsed(profile.id);
+    setActiveProfileId(profile.id);
+    await openConnection(profile.connectionString, profile.tableName);
   };
 
-  const handleSelectTable = async (tableName: string) => {
+  const handleDeleteProfile = (id: string) => {
+    deleteProfile(id);
+    if (activeProfileId === id) setActiveProfileId(null);
+  };
+
+  const handleSelectTable = async (tableName: string, query?: EntityQuery) => {
     if (state.status !== "tables-loaded" && state.status !== "connected") return;
-    
-    const { connectionString, tables } = state;
-    setState({ status: "loading-data", connectionString, tables, selectedTable: tableName });
-    
+    if (state.status !== "connected" || state.tableName !== tableName) resetView();
+    await loadTableData(state.connectionString, state.tables, tableName, query);
+  };
+
+  const handleLoadMore = async (loadAll: boolean) => {
+    if (state.status !== "connected" || !state.continuationToken || state.isLoadingMore) return;
+
+    const { connectionString, tableName, query } = state;
+    const abortSignal = startRequest();
+    let continuationToken: string | undefined = state.continuationToken;
+    setState({ ...state, isLoadingMore: true });
+
     try {
-      const entities = await fetchTableEntities(connectionString, tableName);
-      setState({ status: "connected", connectionString, tables, tableName, entities });
+      do {
+        const page = await fetchEntityPage(connectionString, tableName, { query, pageSize, continuationToken, abortSignal });
+        if (!isCurrentRequest(abortSignal)) return;
+        const nextToken = page.continuationToken;
+        setState((prev) => prev.status === "connected"
+          ? { ...prev, entities: [...prev.entities, ...page.entities], continuationToken: nextToken }
+          : prev
+        );
+        continuationToken = nextToken;
+      } while (loadAll && continuationToken && !abortSignal.aborted);
+      setState((prev) => prev.status === "connected" ? { ...prev, isLoadingMore: false } : prev);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unbekannter Fehler";
-      setState({ status: "error", message, connectionString });
+      if (!isCurrentRequest(abortSignal)) return;
+      if (isAbortError(error)) {
+        setState((prev) => prev.status === "connected" ? { ...prev, isLoadingMore: false } : prev);
+        return;
+      }
+      setState({ status: "error", ...describeError(error), connectionString });
     }
   };
 
-  const handleBackToTables = () => {
-    if (state.status === "connected") {
-      setState({ status: "tables-loaded", connectionString: state.connectionString, tables: state.tables });
+  const handleLoadPartitions = (
+    onProgress: (partitions: PartitionSummary[]) => void,
+    abortSignal: AbortSignal
+  ): Promise<PartitionSummary[]> => {
+    if (state.status !== "connected") return Promise.resolve([]);
+    return listPartitions(state.connectionString, state.tableName, onProgress, abortSignal);
+  };
+
+  // Neue Abfrage laden, ohne die Tabellenansicht (und damit den Partitions-Browser) zu verlassen
+  const reloadInPlace = async (query: EntityQuery | undefined, loadAll: boolean) => {
+    if (state.status !== "connected") return;
+
+    const { connectionString, tableName } = state;
+    const abortSignal = startRequest();
+    setState({ ...state, isLoadingMore: true });
+
+    try {
+      const page = loadAll
+        ? { entities: await fetchTableEntities(connectionString, tableName, query, abortSignal), continuationToken: undefined }
+        : await fetchEntityPage(connectionString, tableName, { query, pageSize, abortSignal });
+      if (!isCurrentRequest(abortSignal)) return;
+      setSelectedEntity(null);
+      setState((prev) => prev.status === "connected"
+        ? { ...prev, entities: page.entities, query, continuationToken: page.continuationToken, isLoadingMore: false }
+        : prev
+      );
+    } catch (error) {
+      if (!isCurrentRequest(abortSignal)) return;
+      if (isAbortError(error)) {
+        setState((prev) => prev.status === "connected" ? { ...prev, isLoadingMore: false } : prev);
+        return;
+      }
+      setState({ status: "error", ...describeError(error), connectionString });
+    }
+  };
+
+  // Eine Partition wird vollständig geladen; die Tabelle bleibt dabei sichtbar
+  const handleLoadPartition = (partitionKey: string) => reloadInPlace(createPartitionQuery(partitionKey), true);
+
+  const handleShowAllPartitions = () => reloadInPlace(undefined, false);
+
+  const handleSaveEntity = async (
+    entity: WritableEntity,
+    mode: EntityWriteMode,
+    original: TableEntity | undefined,
+    force: boolean
+  ) => {
+    if (state.status !== "connected") return;
+    const { connectionString, tableName } = state;
+
+    const saved = force
+      ? await upsertTableEntity(connectionString, tableName, entity, mode)
+      : original?.etag
+        ? await updateTableEntity(connectionString, tableName, entity, mode, original.etag)
+        : await createTableEntity(connectionString, tableName, entity);
+
+    const key = getEntityKey(saved);
+    setState((prev) => {
+      if (prev.status !== "connected") return prev;
+      const exists = prev.entities.some((e) => getEntityKey(e) === key);
+      const entities = exists
+        ? prev.entities.map((e) => (getEntityKey(e) === key ? saved : e))
+        : [...prev.entities, saved];
+      return { ...prev, entities };
+    });
+    setSelectedEntity((prev) => (prev && getEntityKey(prev) === key ? saved : prev));
+  };
+
+  const handleDeleteEntity = async (entity: TableEntity, force: boolean) => {
+    if (state.status !== "connected") return;
+    const { connectionString, tableName } = state;
+
+    await deleteTableEntity(connectionString, tableName, entity.partitionKey, entity.rowKey, force ? undefined : entity.etag);
+
+    const key = getEntityKey(entity);
+    setState((prev) => prev.status === "connected"
+      ? { ...prev, entities: prev.entities.filter((e) => getEntityKey(e) !== key) }
+      : prev
+    );
+    setSelectedEntity((prev) => (prev && getEntityKey(prev) === key ? null : prev));
+  };
+
+  const handleCreateTable = async (tableName: string) => {
+    if (state.status !== "tables-loaded") return;
+    await createTable(state.connectionString, tableName);
+    setState((prev) => prev.status === "tables-loaded"
+      ? { ...prev, tables: [...prev.tables, tableName].sort() }
+      : prev
+    );
+  };
+
+  const handleDeleteTable = async (tableName: string) => {
+    if (state.status !== "tables-loaded") return;
+    await deleteTable(state.connectionString, tableName);
+    setState((prev) => prev.status === "tables-loaded"
+      ? { ...prev, tables: prev.tables.filter((table) => table !== tableName) }
+      : prev
+    );
+  };
+
+  const handleLoadTableInfo = (tableName: string, abortSignal: AbortSignal): Promise<TableInfo> => {
+    if (state.status !== "tables-loaded") return Promise.reject(new Error("Keine Verbindung"));
+    return getTableInfo(state.connectionString, tableName, abortSignal);
+  };
+
+  // Aktuelle Verbindung und alle übrigen Profile, damit z. B. Prod mit Staging verglichen werden kann
+  const getConnectionOptions = (): ConnectionOption[] => {
+    const connections: ConnectionOption[] = [];
+    if (state.status === "tables-loaded" || state.status === "loading-data" || state.status === "connected") {
+      const activeProfile = profiles.find((p) => p.id === activeProfileId);
+      connections.push({
+        id: CURRENT_CONNECTION_ID,
+        label: activeProfile?.name ?? "Aktuelle Verbindung",
+        connectionString: state.connectionString,
+        tableName: activeProfile?.tableName,
+      });
     }
+    for (const profile of profiles) {
+      if (profile.id === activeProfileId) continue;
+      connections.push({ id: profile.id, label: profile.name, connectionString: profile.connectionString, tableName: profile.tableName });
+    }
+    return connections;
+  };
+
+  const prepareConnectionString = (connectionString: string): Promise<string> =>
+    getLocalEmulatorEndpoint(connectionString) ? resolveEmulatorConnectionString(connectionString) : Promise.resolve(connectionString);
+
+  const handleLoadConnectionTables = async (connection: ConnectionOption): Promise<string[]> => {
+    if (connection.tableName) return [connection.tableName];
+    return listTables(await prepareConnectionString(connection.connectionString));
+  };
+
+  const handleLoadCompareEntities = async (
+    connection: ConnectionOption,
+    tableName: string,
+    filter: string | undefined,
+    abortSignal: AbortSignal
+  ): Promise<TableEntity[]> => {
+    const connectionString = await prepareConnectionString(connection.connectionString);
+    return fetchTableEntities(connectionString, tableName, filter ? { filter } : undefined, abortSignal);
+  };
+
+  const handleLoadAllEntities = (abortSignal: AbortSignal): Promise<TableEntity[]> => {
+    if (state.status !== "connected") return Promise.resolve([]);
+    return fetchTableEntities(state.connectionString, state.tableName, undefined, abortSignal);
+  };
+
+  const handleLoadQueryEntities = (abortSignal: AbortSignal): Promise<TableEntity[]> => {
+    if (state.status !== "connected") return Promise.resolve([]);
+    return fetchTableEntities(state.connectionString, state.tableName, state.query, abortSignal);
+  };
+
+  const handleFetchExistingKeys = async (
+    connection: ConnectionOption,
+    tableName: string,
+    keys: { partitionKey: string; rowKey: string }[],
+    abortSignal: AbortSignal
+  ): Promise<Set<string>> => {
+    const connectionString = await prepareConnectionString(connection.connectionString);
+    return fetchExistingKeys(connectionString, tableName, keys, abortSignal);
+  };
+
+  const handleCopyBatch = async (
+    connection: ConnectionOption,
+    tableName: string,
+    entities: WritableEntity[],
+    mode: ImportWriteMode,
+    abortSignal: AbortSignal
+  ) => {
+    const connectionString = await prepareConnectionString(connection.connectionString);
+    await submitEntityBatch(connectionString, tableName, entities, mode, abortSignal);
+  };
+
+  const handleSubmitBatch = async (entities: WritableEntity[], mode: ImportWriteMode, abortSignal: AbortSignal) => {
+    if (state.status !== "connected") return;
+    await submitEntityBatch(state.connectionString, state.tableName, entities, mode, abortSignal);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    localStorage.setItem(STORAGE_KEY_PAGE_SIZE, String(size));
+    setPageSize(size);
   };
 
   const handleDisconnect = () => {
+    cancelRequest();
+    resetView();
+    setActiveProfileId(null);
     setState({ status: "disconnected" });
   };
 
+  const findEntity = async (
+    connectionString: string,
+    tableName: string,
+    entities: TableEntity[],
+    key: { partitionKey: string; rowKey: string }
+  ): Promise<TableEntity | null> => {
+    const loaded = entities.find((e) => getEntityKey(e) === getEntityKey(key));
+    if (loaded) return loaded;
+    // Verlinkte Entitäten liegen nicht unbedingt auf der ersten Seite
+    try {
+      return await fetchTableEntity(connectionString, tableName, key.partitionKey, key.rowKey);
+    } catch {
+      return null;
+    }
+  };
+
+  // Stellt die Ansicht einer Route her und lädt dabei nur, was sich gegenüber dem aktuellen Zustand geändert hat
+  const showRoute = async (route: AppRoute, profile?: ConnectionProfile) => {
+    const current = state.status === "tables-loaded" || state.status === "loading-data" || state.status === "connected"
+      ? state
+      : null;
+    let connectionString = current?.connectionString;
+    let tables = current?.tables ?? [];
+    let isReconnected = false;
+    setSortKeys(route.sort);
+
+    if (profile && (profile.id !== activeProfileId || !current)) {
+      markUsed(profile.id);
+      setActiveProfileId(profile.id);
+      const resolved = await resolveConnection(profile.connectionString);
+      if (!resolved) return;
+      connectionString = resolved;
+      const loaded = profile.tableName ? [profile.tableName] : await loadTables(resolved);
+      if (!loaded) return;
+      tables = loaded;
+      isReconnected = true;
+    } else if (!route.profile && !route.table && (activeProfileId || !current)) {
+      // Startseite: Profilverbindungen trennen, freie Verbindungen zeigen weiter ihre Tabellen
+      handleDisconnect();
+      return;
+    }
+    if (!connectionString) return;
+
+    if (!route.table) {
+      cancelRequest();
+      setSelectedEntity(null);
+      setState({ status: "tables-loaded", connectionString, tables });
+      return;
+    }
+
+    const isSameQuery = !isReconnected && current?.status === "connected" && current.tableName === route.table
+      && current.query?.filter === route.filter
+      && (current.query?.select ?? []).join(",") === (route.select ?? []).join(",");
+    let entities = isSameQuery ? current.entities : null;
+    if (!entities) {
+      const query = route.filter || route.select ? { filter: route.filter, select: route.select } : undefined;
+      entities = await loadTableData(connectionString, tables, route.table, query);
+      if (!entities) return;
+    }
+    setSelectedEntity(route.entity ? await findEntity(connectionString, route.table, entities, route.entity) : null);
+  };
+
+  const applyRoute = async (route: AppRoute) => {
+    const profile = route.profile ? profiles.find((p) => p.name === route.profile) : undefined;
+    if (route.profile && !profile) {
+      pendingRouteRef.current = route;
+      return;
+    }
+    pendingRouteRef.current = null;
+    isApplyingRouteRef.current = true;
+    try {
+      await showRoute(route, profile);
+    } finally {
+      isApplyingRouteRef.current = false;
+    }
+  };
+
+  const handlePopState = useEffectEvent(() => {
+    void applyRoute(parseRoute(window.location.hash));
+  });
+
+  const restorePendingRoute = useEffectEvent(() => {
+    const route = pendingRouteRef.current;
+    if (route && profiles.some((p) => p.name === route.profile)) void applyRoute(route);
+  });
+
+  useEffect(() => {
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // Beim Start und sobald nach dem Entsperren des Tresors Profile vorliegen
+  useEffect(() => {
+    restorePendingRoute();
+  }, [profiles]);
+
+  useEffect(() => {
+    if (pendingRouteRef.current || isApplyingRouteRef.current) return;
+    const route = getRouteForState(state, activeProfileName, sortKeys, selectedEntity);
+    if (!route) return;
+    const hash = formatRoute(route);
+    if (hash === window.location.hash) return;
+
+    const url = hash || window.location.pathname + window.location.search;
+    if (isSameView(route, parseRoute(window.location.hash))) window.history.replaceState(null, "", url);
+    else window.history.pushState(null, "", url);
+  }, [state, activeProfileName, sortKeys, selectedEntity]);
+
+  const renderConnectPanel = (isLoading: boolean) => (
+    <div className="space-y-4">
+      <VaultPanel
+        status={vault.status}
+        autoLockMinutes={vault.autoLockMinutes}
+        saveError={vault.saveError}
+        onEnable={vault.enable}
+        onUnlock={vault.unlock}
+        onLock={vault.lock}
+        onChangePassphrase={vault.changePassphrase}
+        onChangeAutoLock={vault.changeAutoLock}
+        onWipe={vault.wipe}
+      />
+      {vault.status !== "locked" && (
+        <ConnectionManager
+          profiles={profiles}
+          onConnect={handleConnectProfile}
+          onAdd={addProfile}
+          onUpdate={updateProfile}
+          onDuplicate={duplicateProfile}
+          onDelete={handleDeleteProfile}
+          isLoading={isLoading}
+        />
+      )}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Neue Verbindung</h3>
+        <ConnectionForm onConnect={handleConnect} isLoading={isLoading} canSaveProfile={vault.status !== "locked"} />
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-100">
       <header className="bg-white shadow">
-        <div className="max-w-7xl mx-auto py-4 px-4">
+        <div className="max-w-7xl mx-auto py-4 px-4 flex items-center justify-between">
           <h1 className="text-2xl font-bold text-gray-900">Azure Table Viewer</h1>
+          {profiles.length > 0 && (
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSwitch={handleConnectProfile}
+              disabled={state.status === "loading-tables"}
+            />
+          )}
         </div>
       </header>
       <main className="max-w-7xl mx-auto py-6 px-4">
+        {compare && (
+          <TableCompare
+            connections={getConnectionOptions()}
+            initialTable={compare.tableName}
+            onLoadTables={handleLoadConnectionTables}
+            onLoadEntities={handleLoadCompareEntities}
+            onClose={() => setCompare(null)}
+          />
+        )}
         {state.status === "disconnected" && (
           <div className="flex flex-col items-center justify-center py-12">
             <div className="bg-white p-8 rounded-lg shadow-md">
               <h2 className="text-lg font-medium text-gray-800 mb-6 text-center">Mit Azure Table Storage verbinden</h2>
-              <ConnectionForm onConnect={handleConnect} isLoading={false} />
+              {renderConnectPanel(false)}
             </div>
           </div>
         )}
@@ -65,7 +587,7 @@ function App() {
           <div className="flex flex-col items-center justify-center py-12">
             <div className="bg-white p-8 rounded-lg shadow-md">
               <h2 className="text-lg font-medium text-gray-800 mb-6 text-center">Mit Azure Table Storage verbinden</h2>
-              <ConnectionForm onConnect={handleConnect} isLoading={true} />
+              {renderConnectPanel(true)}
             </div>
           </div>
         )}
@@ -75,7 +597,11 @@ function App() {
             <div className="bg-white p-8 rounded-lg shadow-md">
               <TableSelector 
                 tables={state.tables} 
-                onSelectTable={handleSelectTable} 
+                onSelectTable={(tableName) => handleSelectTable(tableName)} 
+                onCreateTable={handleCreateTable}
+                onDeleteTable={handleDeleteTable}
+                onLoadTableInfo={handleLoadTableInfo}
+                onCompare={() => setCompare({})}
                 onDisconnect={handleDisconnect}
                 isLoading={false}
               />
@@ -89,6 +615,15 @@ function App() {
               <div className="text-center">
                 <p className="text-gray-600 mb-2">Lade Daten aus Tabelle...</p>
                 <p className="text-blue-600 font-medium">{state.selectedTable}</p>
+                {state.query?.filter && (
+                  <p className="text-xs font-mono text-gray-500 mt-2 break-all">$filter={state.query.filter}</p>
+                )}
+                <button
+                  onClick={cancelRequest}
+                  className="mt-4 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Abbrechen
+                </button>
               </div>
             </div>
           </div>
@@ -99,8 +634,9 @@ function App() {
             <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-2xl">
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
                 <strong className="font-medium">Fehler:</strong> {state.message}
+                {state.hint && <p className="text-sm mt-1">{state.hint}</p>}
               </div>
-              <ConnectionForm onConnect={handleConnect} isLoading={false} initialValue={state.connectionString} />
+              <ConnectionForm onConnect={handleConnect} isLoading={false} initialValue={state.connectionString} canSaveProfile={vault.status !== "locked"} />
             </div>
           </div>
         )}
@@ -108,10 +644,40 @@ function App() {
         {state.status === "connected" && (
           <div className="bg-white p-6 rounded-lg shadow-md">
             <TableViewer 
+              key={`${getAccountId(state.connectionString)}/${state.tableName}`}
               entities={state.entities} 
               tableName={state.tableName} 
+              layoutKey={`${getAccountId(state.connectionString)}/${state.tableName}`}
+              query={state.query}
+              onQueryChange={(query) => handleSelectTable(state.tableName, query)}
+              hasMore={!!state.continuationToken}
+              isLoadingMore={state.isLoadingMore}
+              pageSize={pageSize}
+              onPageSizeChange={handlePageSizeChange}
+              onLoadMore={() => handleLoadMore(false)}
+              onLoadAll={() => handleLoadMore(true)}
+              onCancelLoading={cancelRequest}
+              onSaveEntity={handleSaveEntity}
+              onDeleteEntity={handleDeleteEntity}
+              onLoadAllEntities={handleLoadAllEntities}
+              onSubmitBatch={handleSubmitBatch}
+              onReload={() => handleSelectTable(state.tableName, state.query)}
+              onLoadPartitions={handleLoadPartitions}
+              onLoadPartition={handleLoadPartition}
+              onShowAllPartitions={handleShowAllPartitions}
+              onCompare={() => setCompare({ tableName: state.tableName })}
+              connections={getConnectionOptions()}
+              onLoadConnectionTables={handleLoadConnectionTables}
+              onFetchExistingKeys={handleFetchExistingKeys}
+              onCopyBatch={handleCopyBatch}
+              onLoadQueryEntities={handleLoadQueryEntities}
+              isCovered={compare !== null}
+              sortKeys={sortKeys}
+              onSortKeysChange={setSortKeys}
+              selectedEntity={selectedEntity}
+              onSelectEntity={setSelectedEntity}
+              tablesHref={formatRoute({ profile: activeProfileName, sort: [] }) || "#"}
               onDisconnect={handleDisconnect}
-              onBackToTables={handleBackToTables}
             />
           </div>
         )}
@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { toHexDump } from "../utils/binaryUtils";
+
+interface BinaryPreviewProps {
+  bytes: Uint8Array;
+  base64: string;
+}
+
+type BinaryFormat = "hex" | "base64";
+
+export function BinaryPreview({ bytes, base64 }: BinaryPreviewProps) {
+  const [format, setFormat] = useState<BinaryFormat>("hex");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {(["hex", "base64"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setFormat(option)}
+            className={`px-3 py-1 text-sm rounded-md ${format === option ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"}`}
+          >
+            {option === "hex" ? "Hex" : "Base64"}
+          </button>
+        ))}
+        <span className="text-xs text-gray-400 ml-2">{bytes.length} Bytes</span>
+      </div>
+      <pre className="text-sm font-mono whitespace-pre-wrap break-all text-gray-700">
+        {format === "hex" ? toHexDump(bytes) : base64}
+      </pre>
+    </div>
+  );
+}
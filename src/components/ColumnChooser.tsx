@@ -0,0 +1,105 @@
+import { useState } from "react";
+
+interface ColumnChooserProps {
+  columns: string[];
+  hidden: string[];
+  pinned: string[];
+  position: { top: number; left: number };
+  onToggleHidden: (column: string) => void;
+  onTogglePinned: (column: string) => void;
+  onMove: (column: string, target: string) => void;
+  onShowAll: () => void;
+  onHideAll: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const CHOOSER_WIDTH = 320;
+
+export function ColumnChooser({
+  columns,
+  hidden,
+  pinned,
+  position,
+  onToggleHidden,
+  onTogglePinned,
+  onMove,
+  onShowAll,
+  onHideAll,
+  onReset,
+  onClose,
+}: ColumnChooserProps) {
+  const [filter, setFilter] = useState("");
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const needle = filter.trim().toLowerCase();
+  const shownColumns = needle ? columns.filter((column) => column.toLowerCase().includes(needle)) : columns;
+
+  const handleDrop = (target: string) => {
+    if (dragged) onMove(dragged, target);
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        className="fixed z-50 bg-white border border-gray-200 rounded-lg shadow-xl p-3 space-y-2 text-sm flex flex-col max-h-[60vh]"
+        style={{ top: position.top, left: Math.min(position.left, window.innerWidth - CHOOSER_WIDTH - 8), width: CHOOSER_WIDTH }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="font-medium text-gray-700">
+            Spalten ({columns.length - hidden.filter((column) => columns.includes(column)).length}/{columns.length})
+          </span>
+          <div className="flex gap-3 text-xs">
+            <button onClick={onShowAll} className="text-blue-600 hover:text-blue-800">Alle</button>
+            <button onClick={onHideAll} className="text-blue-600 hover:text-blue-800">Keine</button>
+            <button onClick={onReset} className="text-gray-600 hover:text-gray-800">Zurücksetzen</button>
+          </div>
+        </div>
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Spalte suchen..."
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          autoFocus
+        />
+        <ul className="overflow-auto flex-1 -mx-1">
+          {shownColumns.map((column) => (
+            <li
+              key={column}
+              draggable={!needle}
+              onDragStart={() => setDragged(column)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(column);
+              }}
+              onDragLeave={() => setDropTarget((prev) => (prev === column ? null : prev))}
+              onDrop={() => handleDrop(column)}
+              onDragEnd={() => {
+                setDragged(null);
+                setDropTarget(null);
+              }}
+              className={`flex items-center gap-2 px-1 py-0.5 rounded ${dropTarget === column && dragged !== column ? "bg-blue-50" : "hover:bg-gray-50"} ${dragged === column ? "opacity-50" : ""}`}
+            >
+              <span className={`select-none ${needle ? "text-gray-200" : "text-gray-400 cursor-grab"}`} title="Ziehen zum Verschieben">⋮⋮</span>
+              <label className="flex items-center gap-1 flex-1 cursor-pointer truncate font-mono text-xs">
+                <input type="checkbox" checked={!hidden.includes(column)} onChange={() => onToggleHidden(column)} />
+                {column}
+              </label>
+              <button
+                onClick={() => onTogglePinned(column)}
+                className={`text-xs px-1 rounded ${pinned.includes(column) ? "bg-blue-100 text-blue-700" : "text-gray-400 hover:text-gray-700"}`}
+                title={pinned.includes(column) ? "Fixierung lösen" : "Links fixieren"}
+              >
+                Fixiert
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import type { ColumnFilter, ColumnFilterOperator, EdmType } from "../types";
+import { FILTER_OPERATORS, getFilterError, getFilterOperators } from "../utils/filterUtils";
+import { EDM_TYPES } from "../utils/entityUtils";
+
+interface ColumnFilterPopoverProps {
+  column: string;
+  type: EdmType | null;
+  filter?: ColumnFilter;
+  position: { top: number; left: number };
+  onApply: (filter: ColumnFilter) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 288;
+
+function getPlaceholder(type: EdmType | null): string {
+  switch (type) {
+    case "DateTime":
+      return "2024-01-31T12:00:00Z";
+    case "Boolean":
+      return "true / false";
+    case "Int32":
+    case "Int64":
+    case "Double":
+      return "Zahl";
+    default:
+      return "Wert";
+  }
+}
+
+export function ColumnFilterPopover({ column, type, filter, position, onApply, onRemove, onClose }: ColumnFilterPopoverProps) {
+  const operators = getFilterOperators(type);
+  const [operator, setOperator] = useState<ColumnFilterOperator>(
+    filter && operators.includes(filter.operator) ? filter.operator : operators[0]
+  );
+  const [value, setValue] = useState(filter?.value ?? "");
+  const [valueTo, setValueTo] = useState(filter?.valueTo ?? "");
+
+  const draft: ColumnFilter = { operator, value, valueTo };
+  const error = getFilterError(draft, type);
+  const needsValue = operator !== "empty" && operator !== "notEmpty";
+
+  const handleApply = () => {
+    if (!error) onApply(draft);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleApply();
+    if (e.key === "Escape") onClose();
+  };
+
+  const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        className="fixed z-50 bg-white border border-gray-200 rounded-lg shadow-xl p-3 space-y-2 text-sm"
+        style={{ top: position.top, left: Math.min(position.left, window.innerWidth - POPOVER_WIDTH - 8), width: POPOVER_WIDTH }}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="font-medium text-gray-700 truncate">Filter: {column}</div>
+        <select value={operator} onChange={(e) => setOperator(e.target.value as ColumnFilterOperator)} className={inputClass}>
+          {FILTER_OPERATORS.filter((option) => operators.includes(option.value)).map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {needsValue && operator !== "range" && (
+          operator === "type" ? (
+            <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClass}>
+              <option value="">Bitte wählen</option>
+              {EDM_TYPES.map((edmType) => (
+                <option key={edmType} value={edmType}>{edmType}</option>
+              ))}
+            </select>
+          ) : type === "Boolean" ? (
+            <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClass}>
+              <option value="">Bitte wählen</option>
+              <option value="true">true</option>
+              <option value="false">false</option>
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={operator === "regex" ? "^abc.*" : getPlaceholder(type)}
+              className={`${inputClass} ${operator === "regex" ? "font-mono" : ""}`}
+              autoFocus
+            />
+          )
+        )}
+        {operator === "range" && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="von"
+              className={inputClass}
+              autoFocus
+            />
+            <input
+              type="text"
+              value={valueTo}
+              onChange={(e) => setValueTo(e.target.value)}
+              placeholder="bis"
+              className={inputClass}
+            />
+          </div>
+        )}
+        {error && (value !== "" || valueTo !== "") && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex justify-between pt-1">
+          <button
+            onClick={onRemove}
+            disabled={!filter}
+            className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Entfernen
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!!error}
+            className="px-3 py-1 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            Anwenden
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
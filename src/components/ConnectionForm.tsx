@@ -1,77 +1,317 @@
-import { useState } from "react";
-import { STORAGE_KEY_CONNECTION } from "../constants/storage";
+import { useRef, useState } from "react";
+import { maskSegmentValue, parseConnectionString, type ParsedConnectionString } from "../utils/connectionStringUtils";
+import {
+  buildSasConnectionString,
+  canListTables,
+  parseAccountUrl,
+  parseSasToken,
+  parseTableSasUrl,
+  type SasInfo,
+} from "../utils/sasUtils";
+import { buildEmulatorConnectionString, DEFAULT_EMULATOR_SETTINGS, getEmulatorEndpoint, type EmulatorSettings } from "../services/emulator";
 
 interface ConnectionFormProps {
-  onConnect: (connectionString: string) => void;
+  onConnect: (connectionString: string, profileName?: string, tableName?: string) => void;
   isLoading: boolean;
   initialValue?: string;
+  canSaveProfile?: boolean;
 }
 
-export function ConnectionForm({ onConnect, isLoading, initialValue }: ConnectionFormProps) {
-  const [connectionString, setConnectionString] = useState(() => 
-    initialValue || localStorage.getItem(STORAGE_KEY_CONNECTION) || ""
+type AuthMode = "connectionString" | "accountSas" | "tableSas" | "emulator";
+
+interface ResolvedConnection {
+  connectionString?: string;
+  tableName?: string;
+  sas?: SasInfo;
+  error?: string;
+}
+
+const AUTH_MODES: { value: AuthMode; label: string }[] = [
+  { value: "connectionString", label: "Connection String" },
+  { value: "accountSas", label: "Account-URL + SAS" },
+  { value: "tableSas", label: "Tabellen-SAS-URL" },
+  { value: "emulator", label: "Emulator (Azurite)" },
+];
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm";
+
+interface SegmentPreviewProps {
+  parsed: ParsedConnectionString;
+  onSelectSegment: (start: number, end: number) => void;
+}
+
+// Zeigt die erkannten Segmente mit maskierten Schlüsseln; fehlerhafte Segmente sind rot markiert
+function SegmentPreview({ parsed, onSelectSegment }: SegmentPreviewProps) {
+  if (parsed.segments.length === 0) return null;
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex flex-wrap gap-1 font-mono">
+        {parsed.segments.map((segment) => (
+          <button
+            key={segment.start}
+            type="button"
+            onClick={() => onSelectSegment(segment.start, segment.end)}
+            title={segment.error}
+            className={`px-1.5 py-0.5 rounded max-w-full truncate ${segment.error ? "bg-red-100 text-red-700 ring-1 ring-red-300" : "bg-gray-100 text-gray-600"}`}
+          >
+            <span className="font-medium">{segment.key}</span>
+            {segment.value && `=${maskSegmentValue(segment)}`}
+          </button>
+        ))}
+      </div>
+      {parsed.errors.map((error) => <p key={error} className="text-red-600">{error}</p>)}
+      {parsed.warnings.map((warning) => <p key={warning} className="text-yellow-700">{warning}</p>)}
+    </div>
   );
-  const [rememberCredentials, setRememberCredentials] = useState(() => 
-    !!localStorage.getItem(STORAGE_KEY_CONNECTION)
+}
+
+function SasDetails({ sas, requireListing }: { sas: SasInfo; requireListing: boolean }) {
+  const warnings = [...sas.warnings];
+  if (requireListing && sas.errors.length === 0 && !canListTables(sas)) {
+    warnings.push("Mit diesem SAS können keine Tabellen aufgelistet werden (srt=s und sp=l erforderlich)");
+  }
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-500">
+        <span>{sas.isAccountSas ? "Account-SAS" : "Service-SAS"}</span>
+        {sas.expiry && <span>Gültig bis {sas.expiry.toLocaleString("de-DE")}</span>}
+        {sas.permissions.length > 0 && <span>Rechte: {sas.permissions.join(", ")}</span>}
+      </div>
+      {sas.errors.map((error) => <p key={error} className="text-red-600">{error}</p>)}
+      {warnings.map((warning) => <p key={warning} className="text-yellow-700">{warning}</p>)}
+    </div>
   );
+}
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (connectionString.trim()) {
-      if (rememberCredentials) {
-        localStorage.setItem(STORAGE_KEY_CONNECTION, connectionString.trim());
-      } else {
-        localStorage.removeItem(STORAGE_KEY_CONNECTION);
+export function ConnectionForm({ onConnect, isLoading, initialValue, canSaveProfile = true }: ConnectionFormProps) {
+  const [authMode, setAuthMode] = useState<AuthMode>("connectionString");
+  const [connectionString, setConnectionString] = useState(initialValue ?? "");
+  const [accountUrl, setAccountUrl] = useState("");
+  const [sasToken, setSasToken] = useState("");
+  const [tableSasUrl, setTableSasUrl] = useState("");
+  const [emulator, setEmulator] = useState<EmulatorSettings>(DEFAULT_EMULATOR_SETTINGS);
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState("");
+  const connectionStringRef = useRef<HTMLTextAreaElement>(null);
+
+  const parsedConnectionString = authMode === "connectionString" ? parseConnectionString(connectionString) : undefined;
+
+  const selectSegment = (start: number, end: number) => {
+    const textarea = connectionStringRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  };
+
+  const resolveConnection = (): ResolvedConnection => {
+    switch (authMode) {
+      case "connectionString":
+        if (parsedConnectionString?.errors.length) return {};
+        return { connectionString: connectionString.trim() || undefined };
+      case "accountSas": {
+        if (!accountUrl.trim() || !sasToken.trim()) return {};
+        const sas = parseSasToken(sasToken);
+        const { endpoint, error } = parseAccountUrl(accountUrl);
+        if (!endpoint) return { sas, error };
+        if (sas.errors.length > 0) return { sas };
+        return { connectionString: buildSasConnectionString(endpoint, sas.token), sas };
+      }
+      case "tableSas": {
+        if (!tableSasUrl.trim()) return {};
+        const { result, error } = parseTableSasUrl(tableSasUrl);
+        if (!result) return { error };
+        if (result.sas.errors.length > 0) return { sas: result.sas };
+        return {
+          connectionString: buildSasConnectionString(result.endpoint, result.sas.token),
+          tableName: result.tableName,
+          sas: result.sas,
+        };
+      }
+      case "emulator": {
+        if (!emulator.host.trim() || !emulator.accountName.trim() || !emulator.accountKey.trim()) return {};
+        if (!Number.isInteger(emulator.port) || emulator.port < 1 || emulator.port > 65535) {
+          return { error: "Ungültiger Port" };
+        }
+        return { connectionString: buildEmulatorConnectionString(emulator) };
       }
-      onConnect(connectionString.trim());
     }
   };
 
-  const handleClearStorage = () => {
-    localStorage.removeItem(STORAGE_KEY_CONNECTION);
-    setConnectionString("");
-    setRememberCredentials(false);
+  const updateEmulator = (fields: Partial<EmulatorSettings>) => setEmulator((prev) => ({ ...prev, ...fields }));
+
+  const resolved = resolveConnection();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (resolved.connectionString) {
+      const shouldSave = canSaveProfile && saveAsProfile && profileName.trim();
+      onConnect(resolved.connectionString, shouldSave ? profileName.trim() : undefined, resolved.tableName);
+    }
   };
 
   return (
     <form onSubmit={handleSubmit} className="w-full max-w-2xl space-y-4">
-      <div>
-        <label htmlFor="connectionString" className="block text-sm font-medium text-gray-700 mb-1">
-          Connection String
-        </label>
-        <textarea
-          id="connectionString"
-          value={connectionString}
-          onChange={(e) => setConnectionString(e.target.value)}
-          placeholder="DefaultEndpointsProtocol=https;AccountName=...;AccountKey=...;EndpointSuffix=core.windows.net"
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
-          rows={3}
-          required
-        />
-      </div>
-      <div className="flex items-center justify-between">
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="checkbox"
-            checked={rememberCredentials}
-            onChange={(e) => setRememberCredentials(e.target.checked)}
-            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-          />
-          <span className="text-sm text-gray-600">Connection String merken</span>
-        </label>
-        {localStorage.getItem(STORAGE_KEY_CONNECTION) && (
+      <div className="flex gap-1">
+        {AUTH_MODES.map((mode) => (
           <button
+            key={mode.value}
             type="button"
-            onClick={handleClearStorage}
-            className="text-sm text-red-600 hover:text-red-800 underline"
+            onClick={() => setAuthMode(mode.value)}
+            className={`px-3 py-1 text-sm rounded-md ${authMode === mode.value ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"}`}
           >
-            Gespeicherte Daten löschen
+            {mode.label}
           </button>
-        )}
+        ))}
       </div>
+
+      {authMode === "connectionString" && (
+        <div>
+          <label htmlFor="connectionString" className="block text-sm font-medium text-gray-700 mb-1">
+            Connection String
+          </label>
+          <textarea
+            id="connectionString"
+            ref={connectionStringRef}
+            value={connectionString}
+            onChange={(e) => setConnectionString(e.target.value)}
+            placeholder="DefaultEndpointsProtocol=https;AccountName=...;AccountKey=...;EndpointSuffix=core.windows.net"
+            className={inputClass}
+            rows={3}
+            spellCheck={false}
+            required
+          />
+          {parsedConnectionString && <SegmentPreview parsed={parsedConnectionString} onSelectSegment={selectSegment} />}
+        </div>
+      )}
+
+      {authMode === "accountSas" && (
+        <div className="space-y-2">
+          <div>
+            <label htmlFor="accountUrl" className="block text-sm font-medium text-gray-700 mb-1">Account-URL</label>
+            <input
+              id="accountUrl"
+              value={accountUrl}
+              onChange={(e) => setAccountUrl(e.target.value)}
+              placeholder="https://<account>.table.core.windows.net"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="sasToken" className="block text-sm font-medium text-gray-700 mb-1">SAS-Token</label>
+            <textarea
+              id="sasToken"
+              value={sasToken}
+              onChange={(e) => setSasToken(e.target.value)}
+              placeholder="sv=2022-11-02&ss=t&srt=sco&sp=rl&se=...&sig=..."
+              className={inputClass}
+              rows={2}
+              required
+            />
+          </div>
+        </div>
+      )}
+
+      {authMode === "tableSas" && (
+        <div>
+          <label htmlFor="tableSasUrl" className="block text-sm font-medium text-gray-700 mb-1">Tabellen-SAS-URL</label>
+          <textarea
+            id="tableSasUrl"
+            value={tableSasUrl}
+            onChange={(e) => setTableSasUrl(e.target.value)}
+            placeholder="https://<account>.table.core.windows.net/<Tabelle>?sv=...&tn=...&sp=r&se=...&sig=..."
+            className={inputClass}
+            rows={3}
+            required
+          />
+          {resolved.tableName && (
+            <p className="text-xs text-gray-500 mt-1">Öffnet direkt die Tabelle <span className="font-medium">{resolved.tableName}</span></p>
+          )}
+        </div>
+      )}
+
+      {authMode === "emulator" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label htmlFor="emulatorHost" className="block text-sm font-medium text-gray-700 mb-1">Host</label>
+              <input
+                id="emulatorHost"
+                value={emulator.host}
+                onChange={(e) => updateEmulator({ host: e.target.value.trim() })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="emulatorPort" className="block text-sm font-medium text-gray-700 mb-1">Table-Port</label>
+              <input
+                id="emulatorPort"
+                type="number"
+                value={emulator.port}
+                onChange={(e) => updateEmulator({ port: Number(e.target.value) })}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="emulatorAccount" className="block text-sm font-medium text-gray-700 mb-1">Konto</label>
+            <input
+              id="emulatorAccount"
+              value={emulator.accountName}
+              onChange={(e) => updateEmulator({ accountName: e.target.value.trim() })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="emulatorKey" className="block text-sm font-medium text-gray-700 mb-1">Kontoschlüssel</label>
+            <input
+              id="emulatorKey"
+              type="password"
+              value={emulator.accountKey}
+              onChange={(e) => updateEmulator({ accountKey: e.target.value.trim() })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Endpunkt <span className="font-mono">{getEmulatorEndpoint(emulator)}</span>. Vor dem Verbinden wird geprüft, ob der Emulator erreichbar ist.
+          </p>
+        </div>
+      )}
+
+      {resolved.error && <p className="text-xs text-red-600">{resolved.error}</p>}
+      {resolved.sas && <SasDetails sas={resolved.sas} requireListing={authMode === "accountSas"} />}
+
+      {canSaveProfile && (
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={saveAsProfile}
+              onChange={(e) => setSaveAsProfile(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-600">Als Profil speichern</span>
+          </label>
+          {saveAsProfile && (
+            <input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profilname"
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          )}
+        </div>
+      )}
       <button
         type="submit"
-        disabled={isLoading || !connectionString.trim()}
+        disabled={isLoading || !resolved.connectionString}
         className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
       >
         {isLoading ? "Lade Tabellen..." : "Verbinden"}
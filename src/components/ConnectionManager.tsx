@@ -0,0 +1,197 @@
+import { useState } from "react";
+import type { ConnectionProfile, ProfileColor } from "../types";
+import type { ProfileFields } from "../hooks/useConnectionProfiles";
+import { ENVIRONMENT_SUGGESTIONS, PROFILE_COLORS } from "../constants/profiles";
+
+interface ConnectionManagerProps {
+  profiles: ConnectionProfile[];
+  onConnect: (profile: ConnectionProfile) => void;
+  onAdd: (fields: ProfileFields) => void;
+  onUpdate: (id: string, fields: Partial<ProfileFields>) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  isLoading: boolean;
+}
+
+interface ProfileFormProps {
+  initial?: ConnectionProfile;
+  onSubmit: (fields: ProfileFields) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function formatLastUsed(value?: string): string {
+  if (!value) return "nie verwendet";
+  return new Date(value).toLocaleString("de-DE", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function ProfileForm({ initial, onSubmit, onCancel }: ProfileFormProps) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [environment, setEnvironment] = useState(initial?.environment ?? "");
+  const [color, setColor] = useState<ProfileColor>(initial?.color ?? "blue");
+  const [connectionString, setConnectionString] = useState(initial?.connectionString ?? "");
+  const [tableName, setTableName] = useState(initial?.tableName ?? "");
+
+  const canSubmit = name.trim() && connectionString.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({
+      name: name.trim(),
+      environment: environment.trim(),
+      color,
+      connectionString: connectionString.trim(),
+      tableName: tableName.trim() || undefined,
+      lastUsed: initial?.lastUsed,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-3 bg-gray-50 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+        <input
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value)}
+          placeholder="Umgebung"
+          list="profile-environments"
+          className={inputClass}
+        />
+        <datalist id="profile-environments">
+          {ENVIRONMENT_SUGGESTIONS.map((env) => <option key={env} value={env} />)}
+        </datalist>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600">Farbe</span>
+        {(Object.keys(PROFILE_COLORS) as ProfileColor[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setColor(option)}
+            className={`w-5 h-5 rounded-full ${PROFILE_COLORS[option]} ${color === option ? "ring-2 ring-offset-1 ring-blue-600" : ""}`}
+            title={option}
+          />
+        ))}
+      </div>
+      <textarea
+        value={connectionString}
+        onChange={(e) => setConnectionString(e.target.value)}
+        placeholder="DefaultEndpointsProtocol=https;AccountName=...;AccountKey=...;EndpointSuffix=core.windows.net"
+        className={`${inputClass} font-mono`}
+        rows={2}
+      />
+      <input
+        value={tableName}
+        onChange={(e) => setTableName(e.target.value)}
+        placeholder="Tabelle (optional, für Tabellen-SAS)"
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+          Abbrechen
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="px-3 py-1 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md disabled:opacity-50"
+        >
+          Speichern
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function ConnectionManager({
+  profiles,
+  onConnect,
+  onAdd,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+  isLoading,
+}: ConnectionManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const sortedProfiles = [...profiles].sort((a, b) => (b.lastUsed ?? "").localeCompare(a.lastUsed ?? ""));
+
+  return (
+    <div className="w-full max-w-2xl space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium text-gray-700">Gespeicherte Verbindungen</h3>
+        {!isAdding && (
+          <button onClick={() => setIsAdding(true)} className="text-sm text-blue-600 hover:text-blue-800">
+            + Profil
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <ProfileForm
+          onSubmit={(fields) => {
+            onAdd(fields);
+            setIsAdding(false);
+          }}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      {profiles.length === 0 && !isAdding && (
+        <p className="text-sm text-gray-500">Noch keine Profile gespeichert.</p>
+      )}
+
+      {sortedProfiles.map((profile) => editingId === profile.id ? (
+        <ProfileForm
+          key={profile.id}
+          initial={profile}
+          onSubmit={(fields) => {
+            onUpdate(profile.id, fields);
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <div
+          key={profile.id}
+          className="flex items-center justify-between gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg"
+        >
+          <button
+            onClick={() => onConnect(profile)}
+            disabled={isLoading}
+            className="flex items-center gap-2 text-left flex-1 min-w-0 group disabled:opacity-50"
+          >
+            <span className={`w-3 h-3 rounded-full flex-shrink-0 ${PROFILE_COLORS[profile.color]}`} />
+            <span className="font-medium text-gray-700 group-hover:text-blue-600 truncate">{profile.name}</span>
+            {profile.environment && (
+              <span className="text-xs px-1.5 rounded bg-gray-100 text-gray-600">{profile.environment}</span>
+            )}
+            {profile.tableName && (
+              <span className="text-xs text-gray-500 truncate">{profile.tableName}</span>
+            )}
+            <span className="text-xs text-gray-400 ml-auto whitespace-nowrap">{formatLastUsed(profile.lastUsed)}</span>
+          </button>
+          <div className="flex gap-2 text-xs">
+            <button onClick={() => setEditingId(profile.id)} className="text-gray-500 hover:text-gray-800">
+              Bearbeiten
+            </button>
+            <button onClick={() => onDuplicate(profile.id)} className="text-gray-500 hover:text-gray-800">
+              Duplizieren
+            </button>
+            <button onClick={() => onDelete(profile.id)} className="text-red-500 hover:text-red-700">
+              Löschen
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
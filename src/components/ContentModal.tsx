@@ -1,84 +1,16 @@
-import type { ContentType } from "../utils/jsonUtils";
-import { highlightJson } from "../utils/jsonUtils";
+import { getDetector, renderContent, type ContentAnalysis } from "../detectors";
+import { useClipboard } from "../hooks/useClipboard";
 
 interface ContentModalProps {
-  content: unknown;
-  type: ContentType;
+  analysis: ContentAnalysis;
   onClose: () => void;
 }
 
-export function ContentModal({ content, type, onClose }: ContentModalProps) {
-  const getTitle = () => {
-    switch (type) {
-      case "json": return "JSON Preview";
-      case "csv": return "CSV Preview";
-      case "text": return "Text Preview";
-    }
-  };
+export function ContentModal({ analysis, onClose }: ContentModalProps) {
+  const detector = getDetector(analysis.type);
+  const { copy, copyError } = useClipboard();
 
-  const getCopyText = (): string => {
-    if (type === "json") {
-      return JSON.stringify(content, null, 2);
-    }
-    if (type === "csv" && Array.isArray(content)) {
-      return (content as string[][]).map(row => row.join("\t")).join("\n");
-    }
-    return String(content);
-  };
-
-  const renderContent = () => {
-    if (type === "json") {
-      return (
-        <pre className="text-sm font-mono whitespace-pre-wrap break-words">
-          {highlightJson(content)}
-        </pre>
-      );
-    }
-
-    if (type === "csv" && Array.isArray(content)) {
-      const rows = content as string[][];
-      const hasHeader = rows.length > 0;
-      
-      return (
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200 text-sm">
-            {hasHeader && (
-              <thead className="bg-gray-100">
-                <tr>
-                  {rows[0].map((cell, idx) => (
-                    <th key={idx} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
-                      {cell}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-            )}
-            <tbody className="divide-y divide-gray-100">
-              {rows.slice(1).map((row, rowIdx) => (
-                <tr key={rowIdx} className="hover:bg-gray-50">
-                  {row.map((cell, cellIdx) => (
-                    <td key={cellIdx} className="px-3 py-2 text-gray-600 whitespace-nowrap">
-                      {cell}
-                    </td>
-                  ))}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          <p className="text-xs text-gray-400 mt-2">
-            {rows.length - 1} Zeilen, {rows[0]?.length || 0} Spalten
-          </p>
-        </div>
-      );
-    }
-
-    // Plain Text
-    return (
-      <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-700">
-        {String(content)}
-      </pre>
-    );
-  };
+  const handleCopy = () => copy(() => detector.copyText(analysis.parsed));
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
@@ -87,7 +19,7 @@ export function ContentModal({ content, type, onClose }: ContentModalProps) {
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-800">{getTitle()}</h3>
+          <h3 className="text-lg font-semibold text-gray-800">{detector.title}</h3>
           <button
             onClick={onClose}
             className="text-gray-500 hover:text-gray-700 text-2xl leading-none"
@@ -96,11 +28,12 @@ export function ContentModal({ content, type, onClose }: ContentModalProps) {
           </button>
         </div>
         <div className="overflow-auto p-4 flex-1 bg-gray-50">
-          {renderContent()}
+          {renderContent(analysis)}
         </div>
-        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end items-center gap-2">
+          {copyError && <p className="mr-auto text-sm text-red-600">Kopieren fehlgeschlagen: {copyError}</p>}
           <button
-            onClick={() => navigator.clipboard.writeText(getCopyText())}
+            onClick={handleCopy}
             className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
           >
             Kopieren
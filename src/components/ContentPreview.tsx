@@ -0,0 +1,10 @@
+import { analyzeContent, renderContent } from "../detectors";
+
+interface ContentPreviewProps {
+  value: string;
+}
+
+// Für dekodierte Inhalte (Base64, GZip), die selbst wieder JSON, XML usw. sein können
+export function ContentPreview({ value }: ContentPreviewProps) {
+  return <>{renderContent(analyzeContent(value))}</>;
+}
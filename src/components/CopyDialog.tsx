@@ -0,0 +1,541 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { ConnectionOption, CopyConflictStrategy, ImportWriteMode, TableEntity } from "../types";
+import { MAX_BATCH_SIZE, type WritableEntity } from "../services/azureTableService";
+import { writeBatch } from "../utils/batchUtils";
+import {
+  buildCopyRows,
+  CONFLICT_STRATEGIES,
+  createKeyRule,
+  toWriteMode,
+  validateKeyRule,
+  type CopyRow,
+  type KeyField,
+  type KeyRewriteRule,
+} from "../utils/copyUtils";
+import { getEntityKey } from "../utils/entityUtils";
+import { describeError, isAbortError } from "../utils/errorUtils";
+import { groupIntoBatches } from "../utils/importUtils";
+
+interface CopyTarget {
+  connection: ConnectionOption;
+  tableName: string;
+}
+
+interface CopyDialogProps {
+  tableName: string;
+  selectedEntities: TableEntity[];
+  viewEntities: TableEntity[];
+  hasMore: boolean;
+  // Alle Seiten der aktuellen Abfrage, mit den Filtern der Ansicht
+  onLoadAll: (abortSignal: AbortSignal) => Promise<TableEntity[]>;
+  connections: ConnectionOption[];
+  onLoadTables: (connection: ConnectionOption) => Promise<string[]>;
+  onFetchExistingKeys: (
+    connection: ConnectionOption,
+    tableName: string,
+    keys: { partitionKey: string; rowKey: string }[],
+    abortSignal: AbortSignal
+  ) => Promise<Set<string>>;
+  onSubmitBatch: (
+    connection: ConnectionOption,
+    tableName: string,
+    entities: WritableEntity[],
+    mode: ImportWriteMode,
+    abortSignal: AbortSignal
+  ) => Promise<void>;
+  onFinished: (target: CopyTarget) => void;
+  onClose: () => void;
+}
+
+type CopyScope = "selected" | "view" | "all";
+
+interface DryRun {
+  rows: CopyRow[];
+  existingKeys: Set<string>;
+}
+
+interface CopyFailure {
+  row: CopyRow;
+  message: string;
+}
+
+const PREVIEW_ROWS = 50;
+const MAX_LISTED_ERRORS = 100;
+
+const inputClass = "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const KEY_FIELDS: { value: KeyField; label: string }[] = [
+  { value: "partitionKey", label: "PartitionKey" },
+  { value: "rowKey", label: "RowKey" },
+];
+
+function describeTarget(row: CopyRow): string {
+  return row.entity ? `${row.entity.partitionKey} / ${row.entity.rowKey}` : "";
+}
+
+function describeSource(row: CopyRow): string {
+  return `${row.sourcePartitionKey} / ${row.sourceRowKey}`;
+}
+
+export function CopyDialog({
+  tableName,
+  selectedEntities,
+  viewEntities,
+  hasMore,
+  onLoadAll,
+  connections,
+  onLoadTables,
+  onFetchExistingKeys,
+  onSubmitBatch,
+  onFinished,
+  onClose,
+}: CopyDialogProps) {
+  const [scope, setScope] = useState<CopyScope>(selectedEntities.length > 0 ? "selected" : "view");
+  const [connectionId, setConnectionId] = useState(connections[0]?.id ?? "");
+  const [targetTable, setTargetTable] = useState("");
+  const [tables, setTables] = useState<{ connectionId: string; names: string[]; error?: string } | null>(null);
+  const [rules, setRules] = useState<KeyRewriteRule[]>([]);
+  const [strategy, setStrategy] = useState<CopyConflictStrategy>("skip");
+  const [allEntities, setAllEntities] = useState<TableEntity[] | null>(null);
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+  const [busyLabel, setBusyLabel] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isCopying, setIsCopying] = useState(false);
+  const [copyTarget, setCopyTarget] = useState<CopyTarget | null>(null);
+  const [total, setTotal] = useState(0);
+  const [written, setWritten] = useState(0);
+  const [skipped, setSkipped] = useState(0);
+  const [failures, setFailures] = useState<CopyFailure[]>([]);
+  const [failedRows, setFailedRows] = useState<CopyRow[]>([]);
+  const [hasWritten, setHasWritten] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const connection = connections.find((c) => c.id === connectionId);
+  const loadTables = useEffectEvent((id: string) => {
+    const match = connections.find((c) => c.id === id);
+    return match ? onLoadTables(match) : Promise.resolve([]);
+  });
+
+  useEffect(() => {
+    if (!connectionId) return;
+    let cancelled = false;
+    loadTables(connectionId)
+      .then((names) => {
+        if (!cancelled) setTables({ connectionId, names });
+      })
+      .catch((err) => {
+        if (!cancelled) setTables({ connectionId, names: [], error: describeError(err).message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  const currentTables = tables?.connectionId === connectionId ? tables : null;
+  const ruleErrors = rules.map(validateKeyRule);
+  const isConfigValid = connection !== undefined && targetTable !== "" && ruleErrors.every((e) => e === null);
+  const scopeCount = scope === "selected" ? selectedEntities.length : scope === "view" ? viewEntities.length : allEntities?.length;
+
+  // Jede Änderung an Quelle, Ziel oder Regeln macht einen Probelauf ungültig
+  const invalidate = () => {
+    setDryRun(null);
+    setError(null);
+  };
+
+  const updateRule = (id: string, fields: Partial<KeyRewriteRule>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...fields } : rule)));
+    invalidate();
+  };
+
+  const loadSource = async (abortSignal: AbortSignal): Promise<TableEntity[]> => {
+    if (scope === "selected") return selectedEntities;
+    if (scope === "view") return viewEntities;
+    if (allEntities) return allEntities;
+    setBusyLabel("Alle Seiten der Abfrage werden geladen...");
+    const loaded = await onLoadAll(abortSignal);
+    setAllEntities(loaded);
+    return loaded;
+  };
+
+  const runBusy = async <T,>(label: string, action: (abortSignal: AbortSignal) => Promise<T>): Promise<T | undefined> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setBusyLabel(label);
+    setError(null);
+    try {
+      return await action(controller.signal);
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeError(err).message);
+      return undefined;
+    } finally {
+      abortControllerRef.current = null;
+      setBusyLabel(null);
+    }
+  };
+
+  const handleDryRun = () =>
+    runBusy("Probelauf wird vorbereitet...", async (abortSignal) => {
+      if (!connection) return;
+      const rows = buildCopyRows(await loadSource(abortSignal), rules);
+      setBusyLabel("Vorhandene Schlüssel im Ziel werden geprüft...");
+      const keys = rows.flatMap((row) => (row.entity ? [row.entity] : []));
+      const existingKeys = await onFetchExistingKeys(connection, targetTable, keys, abortSignal);
+      setDryRun({ rows, existingKeys });
+    });
+
+  const runCopy = async (target: CopyTarget, copyRows: CopyRow[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setCopyTarget(target);
+    setIsCopying(true);
+    setTotal(copyRows.length);
+    setWritten(0);
+    setFailures([]);
+    setFailedRows([]);
+
+    // Laut Probelauf vorhandene Entitäten gar nicht erst senden; Konflikte beim Schreiben fängt writeBatch als Rückfall ab
+    const existingKeys = strategy === "skip" ? dryRun?.existingKeys : undefined;
+    const pendingRows = existingKeys
+      ? copyRows.filter((row) => !(row.entity && existingKeys.has(getEntityKey(row.entity))))
+      : copyRows;
+    setSkipped(copyRows.length - pendingRows.length);
+
+    const allFailed: CopyRow[] = [];
+    const batches = groupIntoBatches(pendingRows, MAX_BATCH_SIZE);
+    const mode = toWriteMode(strategy);
+    let batchIndex = 0;
+    try {
+      for (; batchIndex < batches.length; batchIndex++) {
+        const result = await writeBatch(
+          batches[batchIndex],
+          (entities, abortSignal) => onSubmitBatch(target.connection, target.tableName, entities, mode, abortSignal),
+          controller.signal,
+          strategy === "skip"
+        );
+        setWritten((prev) => prev + result.written.length);
+        setSkipped((prev) => prev + result.skipped.length);
+        if (result.written.length > 0) setHasWritten(true);
+        allFailed.push(...result.failed.map(({ row }) => row));
+        if (result.failed.length > 0) setFailures((prev) => [...prev, ...result.failed]);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeError(err).message);
+      // Nicht geschriebene Zeilen bleiben für "erneut versuchen" erhalten
+      allFailed.push(...batches.slice(batchIndex).flat());
+    } finally {
+      setFailedRows(allFailed);
+      setIsCopying(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!connection) return;
+    const rows = await runBusy("Entitäten werden vorbereitet...", async (abortSignal) => {
+      const prepared = dryRun?.rows ?? buildCopyRows(await loadSource(abortSignal), rules);
+      const invalidCount = prepared.filter((row) => !row.entity).length;
+      if (invalidCount > 0) {
+        throw new Error(`${invalidCount} Entitäten haben ungültige Zielschlüssel. Details zeigt der Probelauf.`);
+      }
+      return prepared;
+    });
+    if (rows) await runCopy({ connection, tableName: targetTable }, rows);
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+    if (hasWritten && copyTarget) onFinished(copyTarget);
+  };
+
+  const renderRule = (rule: KeyRewriteRule, index: number) => (
+    <div key={rule.id} className="flex items-center gap-2">
+      <select
+        value={rule.field}
+        onChange={(e) => updateRule(rule.id, { field: e.target.value as KeyField })}
+        className={inputClass}
+      >
+        {KEY_FIELDS.map((field) => <option key={field.value} value={field.value}>{field.label}</option>)}
+      </select>
+      <select
+        value={rule.kind}
+        onChange={(e) => updateRule(rule.id, { kind: e.target.value as KeyRewriteRule["kind"] })}
+        className={inputClass}
+      >
+        <option value="prefix">Präfix voranstellen</option>
+        <option value="replace">Text ersetzen</option>
+      </select>
+      {rule.kind === "replace" && (
+        <input
+          value={rule.search}
+          onChange={(e) => updateRule(rule.id, { search: e.target.value })}
+          placeholder="Suchen"
+          className={`${inputClass} w-36 font-mono`}
+        />
+      )}
+      <input
+        value={rule.value}
+        onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+        placeholder={rule.kind === "prefix" ? "Präfix" : "Ersetzen durch"}
+        className={`${inputClass} w-36 font-mono`}
+      />
+      <button
+        onClick={() => {
+          setRules((prev) => prev.filter((r) => r.id !== rule.id));
+          invalidate();
+        }}
+        className="text-gray-400 hover:text-red-600"
+        title="Regel entfernen"
+      >
+        ×
+      </button>
+      {ruleErrors[index] && <span className="text-xs text-red-600">{ruleErrors[index]}</span>}
+    </div>
+  );
+
+  const renderDryRun = ({ rows, existingKeys }: DryRun) => {
+    const isExisting = (row: CopyRow) => row.entity !== undefined && existingKeys.has(getEntityKey(row.entity));
+    const validCount = rows.filter((row) => row.entity).length;
+    const invalidCount = rows.length - validCount;
+    const existingCount = rows.filter(isExisting).length;
+    const existingLabel = { skip: "übersprungen", merge: "zusammengeführt", replace: "ersetzt" }[strategy];
+
+    return (
+      <div className="space-y-2">
+        <p>
+          Probelauf: {rows.length} Entitäten, <span className="text-green-700">{validCount - existingCount} neu</span>
+          {existingCount > 0 && <span className="text-yellow-700">, {existingCount} vorhanden (werden {existingLabel})</span>}
+          {invalidCount > 0 && <span className="text-red-600">, {invalidCount} fehlerhaft</span>}
+        </p>
+        <div className="bg-white border border-gray-200 rounded-md max-h-56 overflow-auto font-mono text-xs">
+          {rows.slice(0, PREVIEW_ROWS).map((row) => (
+            <div
+              key={`${row.sourcePartitionKey}\u0000${row.sourceRowKey}`}
+              className={`flex gap-2 px-2 py-1 border-b border-gray-100 ${row.entity ? "" : "bg-red-50 text-red-700"}`}
+            >
+              <span className="truncate">{describeSource(row)}</span>
+              <span className="text-gray-400">→</span>
+              <span className="truncate flex-1">{row.entity ? describeTarget(row) : row.errors.join("; ")}</span>
+              {row.entity && (
+                <span className={isExisting(row) ? "text-yellow-700" : "text-green-700"}>
+                  {isExisting(row) ? "vorhanden" : "neu"}
+                </span>
+              )}
+            </div>
+          ))}
+          {rows.length > PREVIEW_ROWS && (
+            <div className="px-2 py-1 text-gray-500">… und {rows.length - PREVIEW_ROWS} weitere</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderConfigure = () => (
+    <div className="space-y-4 text-sm text-gray-600">
+      <div className="flex items-center gap-4">
+        <span className="w-24">Quelle</span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="radio"
+            checked={scope === "selected"}
+            disabled={selectedEntities.length === 0}
+            onChange={() => {
+              setScope("selected");
+              invalidate();
+            }}
+          />
+          Ausgewählte ({selectedEntities.length})
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="radio"
+            checked={scope === "view"}
+            onChange={() => {
+              setScope("view");
+              invalidate();
+            }}
+          />
+          Aktuelle Ansicht ({viewEntities.length})
+        </label>
+        {hasMore && (
+          <label className="flex items-center gap-1 cursor-pointer" title="Lädt alle Seiten der Abfrage und wendet die Filter der Ansicht an">
+            <input
+              type="radio"
+              checked={scope === "all"}
+              onChange={() => {
+                setScope("all");
+                invalidate();
+              }}
+            />
+            Gesamtes Ergebnis{allEntities && ` (${allEntities.length})`}
+          </label>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="w-24 shrink-0">Ziel</span>
+        <select
+          value={connectionId}
+          onChange={(e) => {
+            setConnectionId(e.target.value);
+            setTargetTable("");
+            invalidate();
+          }}
+          className={inputClass}
+        >
+          {connections.map((c) => (
+            <option key={c.id} value={c.id}>{c.label}</option>
+          ))}
+        </select>
+        <select
+          value={targetTable}
+          onChange={(e) => {
+            setTargetTable(e.target.value);
+            invalidate();
+          }}
+          disabled={!currentTables}
+          className={inputClass}
+        >
+          <option value="">{currentTables ? "Tabelle wählen" : "Tabellen werden geladen..."}</option>
+          {currentTables?.names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        {currentTables?.error && <span className="text-xs text-red-600">{currentTables.error}</span>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-3">
+          <span className="w-24">Schlüssel</span>
+          <button
+            onClick={() => {
+              setRules((prev) => [...prev, createKeyRule()]);
+              invalidate();
+            }}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            + Regel
+          </button>
+          {rules.length === 0 && <span className="text-xs text-gray-500">Schlüssel werden unverändert übernommen</span>}
+        </div>
+        {rules.length > 0 && <div className="pl-24 space-y-2">{rules.map(renderRule)}</div>}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <span className="w-24">Vorhanden</span>
+        {CONFLICT_STRATEGIES.map((option) => (
+          <label key={option.value} className="flex items-center gap-1 cursor-pointer" title={option.description}>
+            <input type="radio" checked={strategy === option.value} onChange={() => setStrategy(option.value)} />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      {dryRun && renderDryRun(dryRun)}
+    </div>
+  );
+
+  const renderProgress = () => (
+    <div className="space-y-3 text-sm text-gray-600">
+      <p>
+        Nach <span className="font-medium">{copyTarget?.connection.label}</span> /{" "}
+        <span className="font-medium text-blue-600">{copyTarget?.tableName}</span>
+      </p>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all"
+          style={{ width: `${total > 0 ? ((written + skipped + failures.length) / total) * 100 : 0}%` }}
+        />
+      </div>
+      <p>
+        {written} von {total} kopiert
+        {skipped > 0 && <span className="text-yellow-700">, {skipped} vorhanden und übersprungen</span>}
+        {failures.length > 0 && <span className="text-red-600">, {failures.length} fehlgeschlagen</span>}
+        {isCopying && " …"}
+      </p>
+      {failures.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 text-red-700 rounded px-3 py-2 max-h-48 overflow-auto text-xs space-y-0.5">
+          {failures.slice(0, MAX_LISTED_ERRORS).map((failure, index) => (
+            <li key={index}>
+              <span className="font-mono">{describeSource(failure.row)} → {describeTarget(failure.row)}</span>: {failure.message}
+            </li>
+          ))}
+          {failures.length > MAX_LISTED_ERRORS && <li>… und {failures.length - MAX_LISTED_ERRORS} weitere</li>}
+        </ul>
+      )}
+    </div>
+  );
+
+  const isBusy = busyLabel !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Entitäten aus <span className="text-blue-600">{tableName}</span> kopieren
+          </h3>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="overflow-auto p-4 flex-1 bg-gray-50 space-y-4">
+          {copyTarget ? renderProgress() : renderConfigure()}
+          {error && <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-end gap-2">
+          {isBusy && <span className="mr-auto text-sm text-gray-600">{busyLabel}</span>}
+          {(isBusy || isCopying) && (
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Abbrechen
+            </button>
+          )}
+          {!copyTarget && !isBusy && (
+            <>
+              <button
+                onClick={handleDryRun}
+                disabled={!isConfigValid}
+                className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+              >
+                Probelauf
+              </button>
+              <button
+                onClick={handleCopy}
+                disabled={!isConfigValid || scopeCount === 0}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+              >
+                {scopeCount !== undefined ? `${scopeCount} Entitäten kopieren` : "Kopieren"}
+              </button>
+            </>
+          )}
+          {copyTarget && !isCopying && (
+            <>
+              {failedRows.length > 0 && (
+                <button
+                  onClick={() => runCopy(copyTarget, failedRows)}
+                  className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  {failedRows.length} fehlgeschlagene erneut versuchen
+                </button>
+              )}
+              <button
+                onClick={handleClose}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+              >
+                Schließen
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { describeError } from "../utils/errorUtils";
+
+interface DeleteTableDialogProps {
+  tableName: string;
+  onDelete: () => Promise<void>;
+  onClose: () => void;
+}
+
+export function DeleteTableDialog({ tableName, onDelete, onClose }: DeleteTableDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bewusst exakter Vergleich, damit der Name wirklich abgetippt wird
+  const isConfirmed = confirmation === tableName;
+
+  const handleDelete = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await onDelete();
+      onClose();
+    } catch (err) {
+      setError(describeError(err).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Tabelle löschen</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="p-4 space-y-3 text-sm text-gray-700">
+          <p>
+            Die Tabelle <span className="font-mono font-semibold">{tableName}</span> wird mit allen Entitäten endgültig gelöscht.
+            Eine gleichnamige Tabelle kann erst nach einiger Zeit wieder angelegt werden.
+          </p>
+          <label className="block text-gray-600">
+            Zur Bestätigung den Tabellennamen eingeben:
+            <input
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && isConfirmed && !isBusy) handleDelete();
+              }}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-red-500"
+              autoFocus
+            />
+          </label>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors">
+            Abbrechen
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!isConfirmed || isBusy}
+            className="px-3 py-1.5 text-sm bg-red-600 text-white hover:bg-red-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isBusy ? "Löschen..." : "Endgültig löschen"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
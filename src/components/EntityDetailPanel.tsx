@@ -0,0 +1,139 @@
+import { useEffect, useEffectEvent } from "react";
+import type { TableEntity } from "../types";
+import { analyzeContent, getDetector, LABEL_STYLES, renderContent } from "../detectors";
+import { useClipboard } from "../hooks/useClipboard";
+import { formatPropertyValue, getEntityColumns, getPropertyType } from "../utils/entityUtils";
+import { entityToJson } from "../utils/exportUtils";
+import { buildEntityKeyFilter } from "../utils/odataUtils";
+import { TypeBadge } from "./TypeBadge";
+
+interface EntityDetailPanelProps {
+  entity: TableEntity;
+  // Position in der gefilterten und sortierten Liste, -1 wenn die Entität dort nicht vorkommt
+  index: number;
+  total: number;
+  // Tastatursteuerung nur, solange kein Dialog darüber liegt
+  isKeyboardActive: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onEdit: () => void;
+  onClose: () => void;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+function PropertyValue({ entity, column }: { entity: TableEntity; column: string }) {
+  const value = entity[column];
+  const type = getPropertyType(entity, column);
+  const analysis = analyzeContent(value, type);
+
+  if (!analysis.isClickable) {
+    return (
+      <div className="text-sm text-gray-700 font-mono whitespace-pre-wrap break-all" title={type === "DateTime" ? String(value) : undefined}>
+        {formatPropertyValue(value, type)}
+      </div>
+    );
+  }
+
+  const styles = LABEL_STYLES[analysis.labelColor || "gray"];
+  return (
+    <div className="space-y-1">
+      <span className={`text-xs px-1 rounded ${styles.label} ${styles.text}`} title={getDetector(analysis.type).title}>
+        {analysis.label}
+      </span>
+      <div className="max-h-80 overflow-auto bg-gray-50 border border-gray-200 rounded-md p-2">
+        {renderContent(analysis)}
+      </div>
+    </div>
+  );
+}
+
+export function EntityDetailPanel({ entity, index, total, isKeyboardActive, onPrevious, onNext, onEdit, onClose }: EntityDetailPanelProps) {
+  const columns = getEntityColumns([entity]).filter((column) => column !== "etag");
+  const hasPrevious = index > 0;
+  const hasNext = index !== -1 && index < total - 1;
+  const { copy, copyError } = useClipboard();
+
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (!isKeyboardActive || isEditableTarget(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
+    if ((e.key === "ArrowUp" || e.key === "k") && hasPrevious) {
+      e.preventDefault();
+      onPrevious();
+    } else if ((e.key === "ArrowDown" || e.key === "j") && hasNext) {
+      e.preventDefault();
+      onNext();
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  });
+
+  useEffect(() => {
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return (
+    <aside className="fixed right-0 top-0 h-full w-[32rem] max-w-full bg-white border-l border-gray-200 shadow-xl z-30 flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-semibold text-gray-800">Entität</h3>
+          <p className="text-xs text-gray-500 font-mono truncate" title={`${entity.partitionKey} / ${entity.rowKey}`}>
+            {entity.partitionKey} / {entity.rowKey}
+          </p>
+        </div>
+        <span className="text-xs text-gray-500">{index !== -1 ? `${index + 1} von ${total}` : "nicht in der Liste"}</span>
+        <button
+          onClick={onPrevious}
+          disabled={!hasPrevious}
+          className="px-2 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+          title="Vorherige Entität (↑ oder K)"
+        >
+          ↑
+        </button>
+        <button
+          onClick={onNext}
+          disabled={!hasNext}
+          className="px-2 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+          title="Nächste Entität (↓ oder J)"
+        >
+          ↓
+        </button>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none" title="Schließen (Esc)">
+          ×
+        </button>
+      </div>
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-200 text-sm">
+        <button onClick={onEdit} className="text-blue-600 hover:text-blue-800">
+          Bearbeiten
+        </button>
+        <button onClick={() => copy(() => entityToJson(entity))} className="text-blue-600 hover:text-blue-800">
+          Als JSON kopieren
+        </button>
+        <button
+          onClick={() => copy(() => buildEntityKeyFilter(entity))}
+          className="text-blue-600 hover:text-blue-800"
+          title="PartitionKey und RowKey als OData-Filter kopieren"
+        >
+          Als Filter kopieren
+        </button>
+      </div>
+      {copyError && <p className="px-4 py-2 border-b border-gray-200 text-sm text-red-600">Kopieren fehlgeschlagen: {copyError}</p>}
+      <dl className="flex-1 overflow-auto divide-y divide-gray-100">
+        {columns.map((column) => (
+          <div key={column} className="px-4 py-2 space-y-1">
+            <dt className="flex items-center gap-2 text-xs font-medium text-gray-500">
+              <span className="font-mono">{column}</span>
+              <TypeBadge type={getPropertyType(entity, column)} />
+            </dt>
+            <dd>
+              <PropertyValue entity={entity} column={column} />
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </aside>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import type { EdmType, EntityProperty, EntityWriteMode, TableEntity } from "../types";
+import { EntityConflictError, type WritableEntity } from "../services/azureTableService";
+import { EDM_TYPES, buildEntity, createProperty, entityToProperties } from "../utils/entityUtils";
+
+interface EntityEditorProps {
+  entity?: TableEntity;
+  onSave: (entity: WritableEntity, mode: EntityWriteMode, force: boolean) => Promise<void>;
+  onDelete: (entity: TableEntity, force: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+type PendingAction = "save" | "delete";
+
+const inputClass = "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function EntityEditor({ entity, onSave, onDelete, onClose }: EntityEditorProps) {
+  const isNew = entity === undefined;
+  const [partitionKey, setPartitionKey] = useState(entity?.partitionKey ?? "");
+  const [rowKey, setRowKey] = useState(entity?.rowKey ?? "");
+  const [properties, setProperties] = useState<EntityProperty[]>(() => entity ? entityToProperties(entity) : []);
+  const [mode, setMode] = useState<EntityWriteMode>("Merge");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<PendingAction | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const updateProperty = (id: string, patch: Partial<EntityProperty>) => {
+    setProperties(properties.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const removeProperty = (id: string) => {
+    setProperties(properties.filter((p) => p.id !== id));
+    // Im Merge-Modus bleiben entfernte Eigenschaften auf dem Server erhalten
+    if (!isNew) setMode("Replace");
+  };
+
+  const run = async (action: PendingAction, force: boolean) => {
+    setError(null);
+    setConflict(null);
+
+    let task: Promise<void>;
+    if (action === "save") {
+      const result = buildEntity(partitionKey, rowKey, properties);
+      if (!result.entity) {
+        setError(result.error ?? "Ungültige Entität");
+        return;
+      }
+      task = onSave(result.entity, isNew ? "Replace" : mode, force);
+    } else {
+      if (!entity) return;
+      task = onDelete(entity, force);
+    }
+
+    setIsBusy(true);
+    try {
+      await task;
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+      if (err instanceof EntityConflictError) setConflict(action);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderValueInput = (property: EntityProperty) => {
+    if (property.type === "Boolean") {
+      return (
+        <select
+          value={property.value}
+          onChange={(e) => updateProperty(property.id, { value: e.target.value })}
+          className={`${inputClass} flex-1`}
+        >
+          <option value="">–</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+    }
+    return (
+      <input
+        value={property.value}
+        onChange={(e) => updateProperty(property.id, { value: e.target.value })}
+        placeholder={property.type === "DateTime" ? "2024-01-31T12:00:00Z" : property.type === "Binary" ? "Base64" : "Wert"}
+        className={`${inputClass} flex-1 min-w-0 font-mono`}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">{isNew ? "Neue Entität" : "Entität bearbeiten"}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+        <div className="overflow-auto p-4 flex-1 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-sm text-gray-600">
+              PartitionKey
+              <input
+                value={partitionKey}
+                onChange={(e) => setPartitionKey(e.target.value)}
+                readOnly={!isNew}
+                className={`${inputClass} w-full font-mono mt-1 read-only:bg-gray-100`}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              RowKey
+              <input
+                value={rowKey}
+                onChange={(e) => setRowKey(e.target.value)}
+                readOnly={!isNew}
+                className={`${inputClass} w-full font-mono mt-1 read-only:bg-gray-100`}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {properties.map((property) => (
+              <div key={property.id} className="flex items-center gap-2">
+                <input
+                  value={property.name}
+                  onChange={(e) => updateProperty(property.id, { name: e.target.value })}
+                  placeholder="Name"
+                  className={`${inputClass} w-48 font-mono`}
+                />
+                <select
+                  value={property.type}
+                  onChange={(e) => updateProperty(property.id, { type: e.target.value as EdmType })}
+                  className={inputClass}
+                >
+                  {EDM_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                </select>
+                {renderValueInput(property)}
+                <button
+                  onClick={() => removeProperty(property.id)}
+                  className="text-gray-400 hover:text-red-600 text-lg leading-none"
+                  title="Eigenschaft entfernen"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setProperties([...properties, createProperty()])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Eigenschaft
+            </button>
+          </div>
+
+          {!isNew && (
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <span>Speichermodus</span>
+              {(["Merge", "Replace"] as const).map((option) => (
+                <label key={option} className="flex items-center gap-1 cursor-pointer">
+                  <input type="radio" checked={mode === option} onChange={() => setMode(option)} />
+                  {option}
+                </label>
+              ))}
+              <span className="text-xs text-gray-400">
+                {mode === "Merge" ? "Nur angegebene Eigenschaften werden geändert" : "Nicht angegebene Eigenschaften werden gelöscht"}
+              </span>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm flex items-center justify-between gap-2">
+              <span>{error}</span>
+              {conflict && (
+                <button
+                  onClick={() => run(conflict, true)}
+                  disabled={isBusy}
+                  className="text-sm text-red-700 underline whitespace-nowrap"
+                >
+                  {conflict === "save" ? "Trotzdem überschreiben" : "Trotzdem löschen"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-between gap-2">
+          <div>
+            {!isNew && (confirmDelete ? (
+              <span className="flex items-center gap-2 text-sm text-gray-600">
+                Wirklich löschen?
+                <button
+                  onClick={() => run("delete", false)}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-sm bg-red-600 text-white hover:bg-red-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  Löschen
+                </button>
+                <button onClick={() => setConfirmDelete(false)} className="text-sm text-gray-500 hover:text-gray-700">
+                  Nein
+                </button>
+              </span>
+            ) : (
+              <button
+                onClick={() => setConfirmDelete(true)}
+                className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-md transition-colors"
+              >
+                Löschen
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Abbrechen
+            </button>
+            <button
+              onClick={() => run("save", false)}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isBusy ? "Speichere..." : "Speichern"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useRef, useState } from "react";
+import type { TableEntity } from "../types";
+import { getEntityColumns } from "../utils/entityUtils";
+import { downloadFile, exportEntities, EXPORT_FORMATS, type ExportFormat } from "../utils/exportUtils";
+import { isAbortError } from "../utils/errorUtils";
+
+interface ExportDialogProps {
+  entities: TableEntity[];
+  tableName: string;
+  onLoadAll: (abortSignal: AbortSignal) => Promise<TableEntity[]>;
+  onClose: () => void;
+}
+
+type ExportScope = "view" | "table";
+
+export function ExportDialog({ entities, tableName, onLoadAll, onClose }: ExportDialogProps) {
+  const columns = getEntityColumns(entities);
+  const [scope, setScope] = useState<ExportScope>("view");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  // Ausgeschlossene statt ausgewählte Spalten merken, damit beim Export der ganzen Tabelle neue Spalten enthalten sind
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set(["etag"]));
+  const [flattenJson, setFlattenJson] = useState(false);
+  const [includeTypes, setIncludeTypes] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const toggleColumn = (column: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(column)) next.delete(column);
+      else next.add(column);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const source = scope === "view" ? entities : await onLoadAll(controller.signal);
+      const exportColumns = getEntityColumns(source).filter((column) => !excluded.has(column));
+      downloadFile(exportEntities(source, tableName, { format, columns: exportColumns, flattenJson, includeTypes }));
+      onClose();
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      abortControllerRef.current = null;
+      setIsBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Exportieren</h3>
+          <button
+            onClick={handleClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+        <div className="overflow-auto p-4 flex-1 bg-gray-50 space-y-4 text-sm text-gray-600">
+          <div className="flex items-center gap-4">
+            <span className="w-20">Umfang</span>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="radio" checked={scope === "view"} onChange={() => setScope("view")} />
+              Aktuelle Ansicht ({entities.length})
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="radio" checked={scope === "table"} onChange={() => setScope("table")} />
+              Gesamte Tabelle
+            </label>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <span className="w-20">Format</span>
+            {EXPORT_FORMATS.map((option) => (
+              <label key={option.value} className="flex items-center gap-1 cursor-pointer">
+                <input type="radio" checked={format === option.value} onChange={() => setFormat(option.value)} />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={includeTypes} onChange={(e) => setIncludeTypes(e.target.checked)} />
+              EDM-Typen mitschreiben (für den erneuten Import)
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={flattenJson} onChange={(e) => setFlattenJson(e.target.checked)} />
+              JSON-Werte in Spalten mit Punktnotation aufteilen
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span>Spalten</span>
+              <div className="flex gap-3 text-xs">
+                <button onClick={() => setExcluded(new Set())} className="text-blue-600 hover:text-blue-800">Alle</button>
+                <button onClick={() => setExcluded(new Set(columns))} className="text-blue-600 hover:text-blue-800">Keine</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-1 bg-white border border-gray-200 rounded-md p-2 max-h-48 overflow-auto">
+              {columns.map((column) => (
+                <label key={column} className="flex items-center gap-1 cursor-pointer truncate font-mono text-xs">
+                  <input type="checkbox" checked={!excluded.has(column)} onChange={() => toggleColumn(column)} />
+                  {column}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+          )}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={handleClose}
+            className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isBusy || columns.every((column) => excluded.has(column))}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isBusy ? (scope === "table" ? "Lade Tabelle..." : "Exportiere...") : "Exportieren"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
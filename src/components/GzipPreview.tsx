@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { decodeUtf8, gunzip } from "../utils/binaryUtils";
+import { bytesToBase64 } from "../utils/entityUtils";
+import { BinaryPreview } from "./BinaryPreview";
+import { ContentPreview } from "./ContentPreview";
+
+interface GzipPreviewProps {
+  bytes: Uint8Array;
+}
+
+type DecompressState =
+  | { status: "loading" }
+  | { status: "done"; bytes: Uint8Array; text: string | null }
+  | { status: "error"; message: string };
+
+export function GzipPreview({ bytes }: GzipPreviewProps) {
+  const [state, setState] = useState<DecompressState>({ status: "loading" });
+
+  useEffect(() => {
+    let isCancelled = false;
+    gunzip(bytes)
+      .then((result) => {
+        if (!isCancelled) setState({ status: "done", bytes: result, text: decodeUtf8(result) });
+      })
+      .catch((error) => {
+        if (!isCancelled) setState({ status: "error", message: error instanceof Error ? error.message : String(error) });
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [bytes]);
+
+  if (state.status === "loading") {
+    return <p className="text-sm text-gray-500">Entpacke...</p>;
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
+        Entpacken fehlgeschlagen: {state.message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        GZip, {bytes.length} Bytes komprimiert, {state.bytes.length} Bytes entpackt
+      </p>
+      {state.text !== null
+        ? <ContentPreview value={state.text} />
+        : <BinaryPreview bytes={state.bytes} base64={bytesToBase64(state.bytes)} />}
+    </div>
+  );
+}
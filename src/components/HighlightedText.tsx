@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+// Markiert alle Vorkommen ohne Beachtung der Groß-/Kleinschreibung
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return <>{text}</>;
+
+  const lower = text.toLowerCase();
+  const parts: ReactNode[] = [];
+  let start = 0;
+  let index = lower.indexOf(needle);
+  while (index !== -1) {
+    parts.push(text.slice(start, index));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 rounded-sm">{text.slice(index, index + needle.length)}</mark>
+    );
+    start = index + needle.length;
+    index = lower.indexOf(needle, start);
+  }
+  parts.push(text.slice(start));
+  return <>{parts}</>;
+}
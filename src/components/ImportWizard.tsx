@@ -0,0 +1,336 @@
+import { useMemo, useRef, useState } from "react";
+import type { EdmType, ImportWriteMode } from "../types";
+import { MAX_BATCH_SIZE, type WritableEntity } from "../services/azureTableService";
+import { writeBatch } from "../utils/batchUtils";
+import { EDM_TYPES } from "../utils/entityUtils";
+import { describeError, isAbortError } from "../utils/errorUtils";
+import {
+  buildImportRows,
+  detectMappings,
+  groupIntoBatches,
+  IMPORT_TARGETS,
+  parseImportFile,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportSource,
+  type ImportTarget,
+} from "../utils/importUtils";
+
+interface ImportWizardProps {
+  tableName: string;
+  onSubmitBatch: (entities: WritableEntity[], mode: ImportWriteMode, abortSignal: AbortSignal) => Promise<void>;
+  onFinished: () => void;
+  onClose: () => void;
+}
+
+interface ImportFailure {
+  line: number;
+  key: string;
+  message: string;
+}
+
+type WizardStep = "select" | "map" | "import";
+
+const WRITE_MODES: { value: ImportWriteMode; label: string; description: string }[] = [
+  { value: "create", label: "Einfügen", description: "Schlägt fehl, wenn die Entität bereits existiert" },
+  { value: "merge", label: "Upsert (Merge)", description: "Vorhandene Eigenschaften bleiben erhalten" },
+  { value: "replace", label: "Upsert (Replace)", description: "Vorhandene Entitäten werden ersetzt" },
+];
+
+const PREVIEW_ROWS = 20;
+const MAX_LISTED_ERRORS = 100;
+
+const inputClass = "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function describeRow(row: ImportRow): string {
+  return row.entity ? `${row.entity.partitionKey} / ${row.entity.rowKey}` : "";
+}
+
+export function ImportWizard({ tableName, onSubmitBatch, onFinished, onClose }: ImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("select");
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [writeMode, setWriteMode] = useState<ImportWriteMode>("create");
+  const [error, setError] = useState<string | null>(null);
+  const [written, setWritten] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const [failedRows, setFailedRows] = useState<ImportRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [hasImported, setHasImported] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const rows = useMemo(() => (source ? buildImportRows(source, mappings) : []), [source, mappings]);
+  const validRows = rows.filter((row) => row.entity);
+  const invalidRows = rows.filter((row) => !row.entity);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) throw new Error("Die Datei enthält keine Datensätze");
+      setSource(parsed);
+      setMappings(detectMappings(parsed));
+      setStep("map");
+    } catch (err) {
+      setError(describeError(err).message);
+    }
+  };
+
+  const updateMapping = (sourceColumn: string, fields: Partial<ColumnMapping>) => {
+    setMappings((prev) => prev.map((m) => {
+      if (m.source === sourceColumn) return { ...m, ...fields };
+      // PartitionKey und RowKey können nur einer Spalte zugeordnet sein
+      if (fields.target && (fields.target === "partitionKey" || fields.target === "rowKey") && m.target === fields.target) {
+        return { ...m, target: "property", name: m.name || m.source };
+      }
+      return m;
+    }));
+  };
+
+  const runImport = async (importRows: ImportRow[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStep("import");
+    setIsRunning(true);
+    setWritten(0);
+    setTotal(importRows.length);
+    setFailures([]);
+    setFailedRows([]);
+
+    const allFailed: ImportRow[] = [];
+    const batches = groupIntoBatches(importRows, MAX_BATCH_SIZE);
+    let batchIndex = 0;
+    try {
+      for (; batchIndex < batches.length; batchIndex++) {
+        const { written, failed } = await writeBatch(
+          batches[batchIndex],
+          (entities, abortSignal) => onSubmitBatch(entities, writeMode, abortSignal),
+          controller.signal
+        );
+        setWritten((prev) => prev + written.length);
+        allFailed.push(...failed.map(({ row }) => row));
+        if (failed.length > 0) {
+          setFailures((prev) => [...prev, ...failed.map(({ row, message }) => ({ line: row.line, key: describeRow(row), message }))]);
+        }
+      }
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeError(err).message);
+      // Nicht geschriebene Zeilen bleiben für "erneut versuchen" erhalten
+      allFailed.push(...batches.slice(batchIndex).flat());
+    } finally {
+      setFailedRows(allFailed);
+      setIsRunning(false);
+      abortControllerRef.current = null;
+      setHasImported(true);
+    }
+  };
+
+  // Erst beim Schließen neu laden, sonst verschwindet der Bericht mit der Tabellenansicht
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+    if (hasImported) onFinished();
+  };
+
+  const renderSelectStep = () => (
+    <div className="space-y-3 text-sm text-gray-600">
+      <p>CSV-, JSON- oder NDJSON-Datei auswählen. Typspalten aus dem Export (<span className="font-mono">@type</span>, <span className="font-mono">@odata.type</span>) werden übernommen.</p>
+      <input
+        type="file"
+        accept=".csv,.txt,.json,.ndjson,.jsonl"
+        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+        className="text-sm"
+      />
+    </div>
+  );
+
+  const renderMapStep = () => (
+    <div className="space-y-4 text-sm text-gray-600">
+      <p>
+        <span className="font-medium">{source?.fileName}</span>: {rows.length} Datensätze,{" "}
+        <span className="text-green-700">{validRows.length} gültig</span>
+        {invalidRows.length > 0 && <span className="text-red-600">, {invalidRows.length} fehlerhaft (werden übersprungen)</span>}
+      </p>
+
+      <table className="w-full text-left">
+        <thead className="text-xs text-gray-500 uppercase">
+          <tr>
+            <th className="py-1">Spalte</th>
+            <th className="py-1">Ziel</th>
+            <th className="py-1">Eigenschaft</th>
+            <th className="py-1">Typ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {mappings.map((mapping) => (
+            <tr key={mapping.source}>
+              <td className="py-1 pr-2 font-mono text-xs">{mapping.source}</td>
+              <td className="py-1 pr-2">
+                <select
+                  value={mapping.target}
+                  onChange={(e) => updateMapping(mapping.source, { target: e.target.value as ImportTarget })}
+                  className={inputClass}
+                >
+                  {IMPORT_TARGETS.map((target) => <option key={target.value} value={target.value}>{target.label}</option>)}
+                </select>
+              </td>
+              <td className="py-1 pr-2">
+                {mapping.target === "property" && (
+                  <input
+                    value={mapping.name}
+                    onChange={(e) => updateMapping(mapping.source, { name: e.target.value })}
+                    className={`${inputClass} w-full font-mono`}
+                  />
+                )}
+              </td>
+              <td className="py-1">
+                {mapping.target === "property" && (
+                  <select
+                    value={mapping.type}
+                    onChange={(e) => updateMapping(mapping.source, { type: e.target.value as EdmType })}
+                    className={inputClass}
+                  >
+                    {EDM_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <h4 className="font-medium text-gray-700 mb-1">Vorschau</h4>
+        <div className="bg-white border border-gray-200 rounded-md max-h-48 overflow-auto font-mono text-xs">
+          {rows.slice(0, PREVIEW_ROWS).map((row) => (
+            <div key={row.line} className={`px-2 py-1 border-b border-gray-100 ${row.entity ? "" : "bg-red-50 text-red-700"}`}>
+              <span className="text-gray-400 mr-2">{row.line}</span>
+              {row.entity ? JSON.stringify(row.entity) : row.errors.join("; ")}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {invalidRows.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-700 mb-1">Fehler</h4>
+          <ul className="bg-red-50 border border-red-200 text-red-700 rounded px-3 py-2 max-h-32 overflow-auto text-xs space-y-0.5">
+            {invalidRows.slice(0, MAX_LISTED_ERRORS).map((row) => (
+              <li key={row.line}>Zeile {row.line}: {row.errors.join("; ")}</li>
+            ))}
+            {invalidRows.length > MAX_LISTED_ERRORS && <li>… und {invalidRows.length - MAX_LISTED_ERRORS} weitere</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <span>Schreibmodus</span>
+        {WRITE_MODES.map((mode) => (
+          <label key={mode.value} className="flex items-center gap-1 cursor-pointer" title={mode.description}>
+            <input type="radio" checked={writeMode === mode.value} onChange={() => setWriteMode(mode.value)} />
+            {mode.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderImportStep = () => (
+    <div className="space-y-3 text-sm text-gray-600">
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all"
+          style={{ width: `${total > 0 ? ((written + failures.length) / total) * 100 : 0}%` }}
+        />
+      </div>
+      <p>
+        {written} von {total} geschrieben
+        {failures.length > 0 && <span className="text-red-600">, {failures.length} fehlgeschlagen</span>}
+        {isRunning && " …"}
+      </p>
+      {failures.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 text-red-700 rounded px-3 py-2 max-h-48 overflow-auto text-xs space-y-0.5">
+          {failures.slice(0, MAX_LISTED_ERRORS).map((failure) => (
+            <li key={failure.line}>
+              Zeile {failure.line} <span className="font-mono">({failure.key})</span>: {failure.message}
+            </li>
+          ))}
+          {failures.length > MAX_LISTED_ERRORS && <li>… und {failures.length - MAX_LISTED_ERRORS} weitere</li>}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Import in <span className="text-blue-600">{tableName}</span></h3>
+          <button
+            onClick={handleClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+        <div className="overflow-auto p-4 flex-1 bg-gray-50 space-y-4">
+          {step === "select" && renderSelectStep()}
+          {step === "map" && renderMapStep()}
+          {step === "import" && renderImportStep()}
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+          )}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          {step === "map" && (
+            <>
+              <button
+                onClick={() => setStep("select")}
+                className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Zurück
+              </button>
+              <button
+                onClick={() => runImport(validRows)}
+                disabled={validRows.length === 0}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+              >
+                {validRows.length} Entitäten importieren
+              </button>
+            </>
+          )}
+          {step === "import" && isRunning && (
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Abbrechen
+            </button>
+          )}
+          {step === "import" && !isRunning && (
+            <>
+              {failedRows.length > 0 && (
+                <button
+                  onClick={() => runImport(failedRows)}
+                  className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  {failedRows.length} fehlgeschlagene erneut versuchen
+                </button>
+              )}
+              <button
+                onClick={handleClose}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+              >
+                Schließen
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { useClipboard } from "../hooks/useClipboard";
+import { getJsonChildren, getPathsToDepth, highlightJson, isJsonContainer, searchJson, toJsonPath } from "../utils/jsonUtils";
+import { HighlightedText } from "./HighlightedText";
+
+interface JsonTreeViewProps {
+  value: unknown;
+}
+
+type ViewMode = "tree" | "raw";
+
+interface JsonTreeNodeProps {
+  nodeKey: string | number | null;
+  value: unknown;
+  path: string;
+  depth: number;
+  expanded: Set<string>;
+  matches: Set<string>;
+  query: string;
+  selectedPath: string;
+  onToggle: (path: string) => void;
+  onSelect: (path: string, value: unknown) => void;
+}
+
+const DEFAULT_DEPTH = 2;
+const EXPAND_DEPTHS = [1, 2, 3];
+
+function getValueClass(value: unknown): string {
+  if (value === null) return "text-red-500";
+  if (typeof value === "string") return "text-green-600";
+  if (typeof value === "number") return "text-blue-600";
+  if (typeof value === "boolean") return "text-orange-500";
+  return "text-gray-600";
+}
+
+function JsonTreeNode({ nodeKey, value, path, depth, expanded, matches, query, selectedPath, onToggle, onSelect }: JsonTreeNodeProps) {
+  const isContainer = isJsonContainer(value);
+  const isExpanded = isContainer && expanded.has(path);
+  const children = isExpanded ? getJsonChildren(value) : [];
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  const childCount = isContainer ? Object.keys(value).length : 0;
+
+  return (
+    <>
+      <div
+        className={`flex items-baseline gap-1 px-1 rounded cursor-pointer whitespace-nowrap ${path === selectedPath ? "bg-blue-100" : matches.has(path) ? "bg-yellow-50" : "hover:bg-gray-100"}`}
+        style={{ paddingLeft: depth * 16 + 4 }}
+        onClick={() => onSelect(path, value)}
+      >
+        <span
+          className="w-3 shrink-0 text-gray-400 select-none"
+          onClick={(e) => {
+            if (!isContainer) return;
+            e.stopPropagation();
+            onToggle(path);
+          }}
+        >
+          {isContainer ? (isExpanded ? "▾" : "▸") : ""}
+        </span>
+        {nodeKey !== null && (
+          <span className="text-purple-600">
+            {typeof nodeKey === "number" ? nodeKey : <>"<HighlightedText text={nodeKey} query={query} />"</>}:
+          </span>
+        )}
+        {isContainer ? (
+          <span className="text-gray-600">
+            {open}
+            {!isExpanded && (
+              <span className="text-gray-400 text-xs mx-1">{childCount} {Array.isArray(value) ? "Einträge" : "Felder"}</span>
+            )}
+            {!isExpanded && close}
+          </span>
+        ) : (
+          <span className={`${getValueClass(value)} whitespace-pre-wrap break-all`}>
+            <HighlightedText text={typeof value === "string" ? `"${value}"` : String(value)} query={query} />
+          </span>
+        )}
+      </div>
+      {isExpanded && (
+        <>
+          {children.map(([key, child]) => (
+            <JsonTreeNode
+              key={key}
+              nodeKey={key}
+              value={child}
+              path={toJsonPath(path, key)}
+              depth={depth + 1}
+              expanded={expanded}
+              matches={matches}
+              query={query}
+              selectedPath={selectedPath}
+              onToggle={onToggle}
+              onSelect={onSelect}
+            />
+          ))}
+          <div className="text-gray-600 px-1" style={{ paddingLeft: depth * 16 + 20 }}>{close}</div>
+        </>
+      )}
+    </>
+  );
+}
+
+export function JsonTreeView({ value }: JsonTreeViewProps) {
+  const [mode, setMode] = useState<ViewMode>("tree");
+  const [expanded, setExpanded] = useState<Set<string>>(() => getPathsToDepth(value, DEFAULT_DEPTH));
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<{ path: string; value: unknown }>({ path: "$", value });
+  const { copy, copyError } = useClipboard();
+  const search = useMemo(() => searchJson(value, query), [value, query]);
+
+  const handleToggle = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleSearch = (nextQuery: string) => {
+    setQuery(nextQuery);
+    // Treffer sichtbar machen, ohne bereits geöffnete Knoten zu schließen
+    const { ancestors } = searchJson(value, nextQuery);
+    if (ancestors.size > 0) setExpanded((prev) => new Set([...prev, ...ancestors]));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <div className="flex items-center gap-1">
+          {(["tree", "raw"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 text-sm rounded-md ${mode === option ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"}`}
+            >
+              {option === "tree" ? "Baum" : "Roh"}
+            </button>
+          ))}
+        </div>
+        {mode === "tree" && (
+          <>
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <span>Ebenen:</span>
+              {EXPAND_DEPTHS.map((depth) => (
+                <button
+                  key={depth}
+                  onClick={() => setExpanded(getPathsToDepth(value, depth))}
+                  className="px-2 py-0.5 bg-white border border-gray-300 rounded hover:bg-gray-100"
+                >
+                  {depth}
+                </button>
+              ))}
+              <button
+                onClick={() => setExpanded(getPathsToDepth(value, Infinity))}
+                className="px-2 py-0.5 bg-white border border-gray-300 rounded hover:bg-gray-100"
+              >
+                Alle
+              </button>
+              <button
+                onClick={() => setExpanded(new Set())}
+                className="px-2 py-0.5 bg-white border border-gray-300 rounded hover:bg-gray-100"
+              >
+                Keine
+              </button>
+            </div>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => handleSearch(e.target.value)}
+              placeholder="Suchen..."
+              className="ml-auto px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {query.trim() && (
+              <span className="text-xs text-gray-500">{search.matches.size} Treffer</span>
+            )}
+          </>
+        )}
+      </div>
+
+      {mode === "tree" ? (
+        <>
+          <div className="flex items-center gap-2 bg-white border border-gray-200 rounded-md px-2 py-1 text-xs">
+            <code className="font-mono text-gray-700 truncate flex-1" title={selected.path}>{selected.path}</code>
+            <button
+              onClick={() => copy(() => selected.path)}
+              className="text-blue-600 hover:text-blue-800 shrink-0"
+            >
+              Pfad kopieren
+            </button>
+            <button
+              onClick={() => copy(() => JSON.stringify(selected.value, null, 2))}
+              className="text-blue-600 hover:text-blue-800 shrink-0"
+            >
+              Wert kopieren
+            </button>
+          </div>
+          {copyError && <p className="text-xs text-red-600">Kopieren fehlgeschlagen: {copyError}</p>}
+          <div className="text-sm font-mono overflow-x-auto">
+            <JsonTreeNode
+              nodeKey={null}
+              value={value}
+              path="$"
+              depth={0}
+              expanded={expanded}
+              matches={search.matches}
+              query={query}
+              selectedPath={selected.path}
+              onToggle={handleToggle}
+              onSelect={(path, nodeValue) => setSelected({ path, value: nodeValue })}
+            />
+          </div>
+        </>
+      ) : (
+        <pre className="text-sm font-mono whitespace-pre-wrap break-words">
+          {highlightJson(value)}
+        </pre>
+      )}
+    </div>
+  );
+}
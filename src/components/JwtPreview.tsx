@@ -0,0 +1,79 @@
+import { useState } from "react";
+import type { JwtToken } from "../detectors/jwt";
+import { highlightJson } from "../utils/jsonUtils";
+
+interface JwtPreviewProps {
+  token: JwtToken;
+}
+
+// Registrierte Claims mit Sekunden seit 1970 (RFC 7519)
+const TIME_CLAIMS: { claim: string; label: string }[] = [
+  { claim: "iat", label: "Ausgestellt" },
+  { claim: "nbf", label: "Gültig ab" },
+  { claim: "exp", label: "Läuft ab" },
+];
+
+function toDate(value: unknown): Date | null {
+  return typeof value === "number" && Number.isFinite(value) ? new Date(value * 1000) : null;
+}
+
+function getStatus(payload: Record<string, unknown>, now: number): { text: string; className: string } {
+  const expiry = toDate(payload.exp);
+  const notBefore = toDate(payload.nbf);
+  if (expiry && expiry.getTime() <= now) {
+    return { text: `Abgelaufen am ${expiry.toLocaleString("de-DE")}`, className: "bg-red-50 border-red-200 text-red-700" };
+  }
+  if (notBefore && notBefore.getTime() > now) {
+    return { text: `Erst ab ${notBefore.toLocaleString("de-DE")} gültig`, className: "bg-yellow-50 border-yellow-200 text-yellow-700" };
+  }
+  if (expiry) {
+    return { text: `Gültig bis ${expiry.toLocaleString("de-DE")}`, className: "bg-green-50 border-green-200 text-green-700" };
+  }
+  return { text: "Ohne Ablaufdatum", className: "bg-gray-100 border-gray-200 text-gray-600" };
+}
+
+export function JwtPreview({ token }: JwtPreviewProps) {
+  // Zeitpunkt beim Öffnen festhalten, damit der Status beim erneuten Rendern stabil bleibt
+  const [now] = useState(() => Date.now());
+  const status = getStatus(token.payload, now);
+  const timeClaims = TIME_CLAIMS.flatMap(({ claim, label }) => {
+    const date = toDate(token.payload[claim]);
+    return date ? [{ claim, label, date }] : [];
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className={`border px-3 py-2 rounded text-sm ${status.className}`}>
+        {status.text}
+        <span className="text-xs opacity-75 ml-2">(Signatur nicht geprüft)</span>
+      </div>
+
+      {timeClaims.length > 0 && (
+        <table className="text-sm">
+          <tbody>
+            {timeClaims.map(({ claim, label, date }) => (
+              <tr key={claim}>
+                <td className="pr-4 text-gray-500">{label}</td>
+                <td className="pr-4 font-mono text-gray-400">{claim}</td>
+                <td className="text-gray-700">{date.toLocaleString("de-DE")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">Header</h4>
+        <pre className="text-sm font-mono whitespace-pre-wrap break-words">{highlightJson(token.header)}</pre>
+      </div>
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">Claims</h4>
+        <pre className="text-sm font-mono whitespace-pre-wrap break-words">{highlightJson(token.payload)}</pre>
+      </div>
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">Signatur</h4>
+        <pre className="text-sm font-mono whitespace-pre-wrap break-all text-gray-500">{token.signature || "(keine)"}</pre>
+      </div>
+    </div>
+  );
+}
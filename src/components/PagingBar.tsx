@@ -0,0 +1,69 @@
+import { PAGE_SIZE_OPTIONS } from "../constants/paging";
+
+interface PagingBarProps {
+  loadedCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  pageSize: number;
+  onPageSizeChange: (size: number) => void;
+  onLoadMore: () => void;
+  onLoadAll: () => void;
+  onCancel: () => void;
+}
+
+export function PagingBar({
+  loadedCount,
+  hasMore,
+  isLoading,
+  pageSize,
+  onPageSizeChange,
+  onLoadMore,
+  onLoadAll,
+  onCancel,
+}: PagingBarProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 mt-4 text-sm text-gray-600">
+      <label className="flex items-center gap-2">
+        Seitengröße
+        <select
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(Number(e.target.value))}
+          disabled={isLoading}
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {PAGE_SIZE_OPTIONS.map((size) => <option key={size} value={size}>{size}</option>)}
+        </select>
+      </label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-3">
+          <span>Lade weitere Einträge... {loadedCount} geladen</span>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Abbrechen
+          </button>
+        </div>
+      ) : hasMore ? (
+        <div className="flex items-center gap-2">
+          <span>{loadedCount} geladen, weitere verfügbar</span>
+          <button
+            onClick={onLoadMore}
+            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Nächste Seite laden
+          </button>
+          <button
+            onClick={onLoadAll}
+            className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Alle laden
+          </button>
+        </div>
+      ) : (
+        <span>Alle {loadedCount} Einträge geladen</span>
+      )}
+    </div>
+  );
+}
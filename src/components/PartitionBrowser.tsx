@@ -0,0 +1,99 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import type { PartitionSummary } from "../services/azureTableService";
+import { describeError, isAbortError } from "../utils/errorUtils";
+
+interface PartitionBrowserProps {
+  selectedPartition?: string;
+  onLoadPartitions: (onProgress: (partitions: PartitionSummary[]) => void, abortSignal: AbortSignal) => Promise<PartitionSummary[]>;
+  onSelectPartition: (partitionKey: string) => Promise<void>;
+  onShowAll: () => Promise<void>;
+}
+
+// Bei einigen tausend Partitionen nur einen Ausschnitt rendern, die Suche grenzt weiter ein
+const MAX_VISIBLE_PARTITIONS = 500;
+
+export function PartitionBrowser({ selectedPartition, onLoadPartitions, onSelectPartition, onShowAll }: PartitionBrowserProps) {
+  const [partitions, setPartitions] = useState<PartitionSummary[]>([]);
+  const [isScanning, setIsScanning] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [prefix, setPrefix] = useState("");
+  const [loadingPartition, setLoadingPartition] = useState<string | null>(null);
+
+  const loadPartitions = useEffectEvent((abortSignal: AbortSignal) => onLoadPartitions(setPartitions, abortSignal));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadPartitions(controller.signal)
+      .then((result) => {
+        setPartitions(result);
+        setIsScanning(false);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(describeError(err).message);
+        setIsScanning(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleSelect = async (partitionKey: string) => {
+    setLoadingPartition(partitionKey);
+    try {
+      await onSelectPartition(partitionKey);
+    } finally {
+      setLoadingPartition(null);
+    }
+  };
+
+  const needle = prefix.toLowerCase();
+  const matches = needle ? partitions.filter((p) => p.partitionKey.toLowerCase().startsWith(needle)) : partitions;
+  const entityCount = partitions.reduce((sum, p) => sum + p.count, 0);
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col border border-gray-200 rounded-lg shadow bg-white max-h-[70vh]">
+      <div className="px-3 py-2 border-b border-gray-200 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-700">Partitionen</span>
+          <button onClick={onShowAll} disabled={selectedPartition === undefined} className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            Alle anzeigen
+          </button>
+        </div>
+        <input
+          type="text"
+          value={prefix}
+          onChange={(e) => setPrefix(e.target.value)}
+          placeholder="PartitionKey beginnt mit..."
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500">
+          {needle && `${matches.length.toLocaleString("de-DE")} von `}
+          {partitions.length.toLocaleString("de-DE")} Partitionen, {entityCount.toLocaleString("de-DE")} Entitäten
+          {isScanning && " – wird gelesen..."}
+        </p>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+      <ul className="overflow-auto flex-1 py-1">
+        {matches.slice(0, MAX_VISIBLE_PARTITIONS).map(({ partitionKey, count }) => (
+          <li key={partitionKey}>
+            <button
+              onClick={() => handleSelect(partitionKey)}
+              disabled={loadingPartition !== null}
+              className={`w-full flex items-center gap-2 px-3 py-1 text-left text-sm disabled:cursor-wait ${partitionKey === selectedPartition ? "bg-blue-50 text-blue-700" : "text-gray-700 hover:bg-gray-50"}`}
+              title={partitionKey}
+            >
+              <span className="truncate font-mono text-xs flex-1">{partitionKey || "(leer)"}</span>
+              <span className="text-xs text-gray-400 shrink-0">
+                {loadingPartition === partitionKey ? "lädt..." : count.toLocaleString("de-DE")}
+              </span>
+            </button>
+          </li>
+        ))}
+        {matches.length > MAX_VISIBLE_PARTITIONS && (
+          <li className="px-3 py-1 text-xs text-gray-500">
+            {(matches.length - MAX_VISIBLE_PARTITIONS).toLocaleString("de-DE")} weitere, Suche verfeinern
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { ConnectionProfile } from "../types";
+import { PROFILE_COLORS } from "../constants/profiles";
+
+interface ProfileSwitcherProps {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  onSwitch: (profile: ConnectionProfile) => void;
+  disabled: boolean;
+}
+
+export function ProfileSwitcher({ profiles, activeProfileId, onSwitch, disabled }: ProfileSwitcherProps) {
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  const handleChange = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) onSwitch(profile);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {activeProfile && <span className={`w-3 h-3 rounded-full ${PROFILE_COLORS[activeProfile.color]}`} />}
+      <select
+        value={activeProfileId ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <option value="" disabled>Profil wählen...</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.environment ? ` (${profile.environment})` : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
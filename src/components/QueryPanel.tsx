@@ -0,0 +1,224 @@
+import { useState } from "react";
+import type { EntityQuery, QueryBuilderState, QueryCondition, QueryGroup, QueryLogic } from "../types";
+import {
+  QUERY_OPERATORS,
+  QUERY_VALUE_TYPES,
+  buildEntityQuery,
+  createBuilderState,
+  createCondition,
+  createGroup,
+  getBuilderState,
+} from "../utils/odataUtils";
+
+interface QueryPanelProps {
+  query?: EntityQuery;
+  columns: string[];
+  onApply: (query: EntityQuery | undefined) => void;
+}
+
+const inputClass = "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function QueryPanel({ query, columns, onApply }: QueryPanelProps) {
+  const [isOpen, setIsOpen] = useState(() => !!query?.filter || !!query?.select);
+  const [state, setState] = useState<QueryBuilderState>(() => getBuilderState(query));
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = buildEntityQuery(state);
+  const propertyOptions = Array.from(new Set(["PartitionKey", "RowKey", "Timestamp", ...columns]))
+    .filter((col) => !["partitionKey", "rowKey", "timestamp"].includes(col));
+
+  const updateGroup = (groupId: string, update: (group: QueryGroup) => QueryGroup) => {
+    setState({ ...state, groups: state.groups.map((g) => (g.id === groupId ? update(g) : g)) });
+  };
+
+  const updateCondition = (groupId: string, conditionId: string, patch: Partial<QueryCondition>) => {
+    updateGroup(groupId, (group) => ({
+      ...group,
+      conditions: group.conditions.map((c) => (c.id === conditionId ? { ...c, ...patch } : c)),
+    }));
+  };
+
+  const removeCondition = (groupId: string, conditionId: string) => {
+    updateGroup(groupId, (group) => ({
+      ...group,
+      conditions: group.conditions.filter((c) => c.id !== conditionId),
+    }));
+  };
+
+  const handleApply = () => {
+    const result = buildEntityQuery(state);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    onApply(result.query);
+  };
+
+  const handleReset = () => {
+    setState(createBuilderState());
+    setError(null);
+    onApply(undefined);
+  };
+
+  const renderLogicSelect = (value: QueryLogic, onChange: (logic: QueryLogic) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as QueryLogic)} className={inputClass}>
+      <option value="and">UND</option>
+      <option value="or">ODER</option>
+    </select>
+  );
+
+  if (!isOpen) {
+    return (
+      <div className="mb-4">
+        <button onClick={() => setIsOpen(true)} className="text-sm text-blue-600 hover:text-blue-800">
+          + Abfrage
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3">
+      <datalist id="query-properties">
+        {propertyOptions.map((col) => <option key={col} value={col} />)}
+      </datalist>
+      <div className="flex justify-between items-center">
+        <div className="flex gap-1">
+          {(["builder", "raw"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setState({ ...state, mode })}
+              className={`px-3 py-1 text-sm rounded-md ${state.mode === mode ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"}`}
+            >
+              {mode === "builder" ? "Builder" : "OData"}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => setIsOpen(false)} className="text-sm text-gray-500 hover:text-gray-700">
+          Ausblenden
+        </button>
+      </div>
+
+      {state.mode === "raw" ? (
+        <textarea
+          value={state.rawFilter}
+          onChange={(e) => setState({ ...state, rawFilter: e.target.value })}
+          placeholder="PartitionKey eq 'abc' and RowKey ge '100'"
+          className={`${inputClass} w-full font-mono`}
+          rows={3}
+        />
+      ) : (
+        <div className="space-y-2">
+          {state.groups.map((group, groupIdx) => (
+            <div key={group.id}>
+              {groupIdx > 0 && (
+                <div className="my-2">
+                  {renderLogicSelect(state.logic, (logic) => setState({ ...state, logic }))}
+                </div>
+              )}
+              <div className="border border-gray-200 rounded-md bg-white p-3 space-y-2">
+                {group.conditions.map((condition, conditionIdx) => (
+                  <div key={condition.id} className="flex flex-wrap items-center gap-2">
+                    <span className="w-16">
+                      {conditionIdx > 0 && renderLogicSelect(group.logic, (logic) => updateGroup(group.id, (g) => ({ ...g, logic })))}
+                    </span>
+                    <input
+                      list="query-properties"
+                      value={condition.property}
+                      onChange={(e) => updateCondition(group.id, condition.id, { property: e.target.value })}
+                      className={`${inputClass} w-40 font-mono`}
+                    />
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(group.id, condition.id, { operator: e.target.value as QueryCondition["operator"] })}
+                      className={inputClass}
+                    >
+                      {QUERY_OPERATORS.map((op) => <option key={op.value} value={op.value}>{op.label}</option>)}
+                    </select>
+                    <select
+                      value={condition.valueType}
+                      onChange={(e) => updateCondition(group.id, condition.id, { valueType: e.target.value as QueryCondition["valueType"] })}
+                      className={inputClass}
+                    >
+                      {QUERY_VALUE_TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                    <input
+                      value={condition.value}
+                      onChange={(e) => updateCondition(group.id, condition.id, { value: e.target.value })}
+                      placeholder="Wert"
+                      className={`${inputClass} flex-1 min-w-32 font-mono`}
+                    />
+                    <button
+                      onClick={() => removeCondition(group.id, condition.id)}
+                      className="text-gray-400 hover:text-red-600 text-lg leading-none"
+                      title="Bedingung entfernen"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <div className="flex gap-4">
+                  <button
+                    onClick={() => updateGroup(group.id, (g) => ({ ...g, conditions: [...g.conditions, createCondition()] }))}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Bedingung
+                  </button>
+                  {state.groups.length > 1 && (
+                    <button
+                      onClick={() => setState({ ...state, groups: state.groups.filter((g) => g.id !== group.id) })}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Gruppe entfernen
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setState({ ...state, groups: [...state.groups, createGroup()] })}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Gruppe
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="query-select" className="text-sm text-gray-600 whitespace-nowrap">$select</label>
+        <input
+          id="query-select"
+          value={state.select}
+          onChange={(e) => setState({ ...state, select: e.target.value })}
+          placeholder="Alle Eigenschaften (kommagetrennt einschränken)"
+          className={`${inputClass} flex-1 font-mono`}
+        />
+      </div>
+
+      {state.mode === "builder" && preview.query?.filter && (
+        <p className="text-xs font-mono text-gray-500 break-all">$filter={preview.query.filter}</p>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={handleReset}
+          className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+        >
+          Zurücksetzen
+        </button>
+        <button
+          onClick={handleApply}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+        >
+          Abfrage ausführen
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import type { ColumnFilter, TableEntity } from "../types";
+import { formatPropertyValue } from "../utils/entityUtils";
+import { analyzeSchema, hasSchemaIssues, type PropertyStats } from "../utils/schemaUtils";
+import { TypeBadge } from "./TypeBadge";
+
+interface SchemaAnalysisDialogProps {
+  entities: TableEntity[];
+  hasMore: boolean;
+  // Zeigt die betroffenen Zeilen über einen Spaltenfilter in der Tabelle an
+  onShowRows: (column: string, filter: ColumnFilter) => void;
+  onClose: () => void;
+}
+
+function formatPercent(share: number): string {
+  return share.toLocaleString("de-DE", { style: "percent", maximumFractionDigits: 1 });
+}
+
+function PropertyRow({ stats, onShowRows }: { stats: PropertyStats; onShowRows: SchemaAnalysisDialogProps["onShowRows"] }) {
+  const dominantType = stats.types[0]?.type;
+  const isOutlier = (type: string) => stats.outlierTypes.some((outlier) => outlier.type === type);
+
+  return (
+    <tr className={hasSchemaIssues(stats) ? "bg-orange-50/50" : ""}>
+      <td className="px-3 py-2 font-mono text-xs text-gray-800 align-top">{stats.name}</td>
+      <td className="px-3 py-2 align-top">
+        <div className="flex flex-col gap-1">
+          {stats.types.map(({ type, count }) => (
+            <div key={type} className="flex items-center gap-1 text-xs">
+              <TypeBadge type={type} />
+              <span className={isOutlier(type) ? "text-orange-600 font-medium" : "text-gray-600"}>
+                {formatPercent(count / stats.count)}
+              </span>
+              {isOutlier(type) && (
+                <button
+                  onClick={() => onShowRows(stats.name, { operator: "type", value: type, valueTo: "" })}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  {count} anzeigen
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </td>
+      <td className="px-3 py-2 text-xs align-top">
+        <div className={stats.fillRate < 1 ? "text-orange-600" : "text-gray-600"}>{formatPercent(stats.fillRate)}</div>
+        {stats.missingCount > 0 && stats.count > 0 && (
+          <button
+            onClick={() => onShowRows(stats.name, { operator: "empty", value: "", valueTo: "" })}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            {stats.missingCount} fehlend
+          </button>
+        )}
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-600 align-top">{stats.distinctCount.toLocaleString("de-DE")}</td>
+      <td className="px-3 py-2 text-xs text-gray-600 align-top font-mono max-w-48">
+        {stats.min !== undefined && (
+          <>
+            <div className="truncate" title={formatPropertyValue(stats.min, dominantType)}>↓ {formatPropertyValue(stats.min, dominantType)}</div>
+            <div className="truncate" title={formatPropertyValue(stats.max, dominantType)}>↑ {formatPropertyValue(stats.max, dominantType)}</div>
+          </>
+        )}
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-600 align-top max-w-64">
+        {stats.topValues.map(({ value, count }) => (
+          <button
+            key={value}
+            onClick={() => onShowRows(stats.name, { operator: "equals", value, valueTo: "" })}
+            className="flex w-full gap-1 text-left hover:text-blue-700"
+            title={value}
+          >
+            <span className="truncate font-mono">{value}</span>
+            <span className="text-gray-400 shrink-0">× {count}</span>
+          </button>
+        ))}
+      </td>
+    </tr>
+  );
+}
+
+export function SchemaAnalysisDialog({ entities, hasMore, onShowRows, onClose }: SchemaAnalysisDialogProps) {
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const analysis = useMemo(() => analyzeSchema(entities), [entities]);
+  const issueCount = analysis.properties.filter(hasSchemaIssues).length;
+  const properties = onlyIssues ? analysis.properties.filter(hasSchemaIssues) : analysis.properties;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Schema-Analyse</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="flex items-center gap-4 px-4 py-2 border-b border-gray-200 text-sm text-gray-600">
+          <span>
+            {analysis.properties.length} Eigenschaften in {analysis.entityCount.toLocaleString("de-DE")} geladenen Entitäten
+            {hasMore && " (weitere Seiten nicht berücksichtigt)"}
+          </span>
+          <label className="flex items-center gap-1 ml-auto">
+            <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} />
+            Nur Auffälligkeiten ({issueCount})
+          </label>
+        </div>
+        <div className="overflow-auto flex-1">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="px-3 py-2">Eigenschaft</th>
+                <th className="px-3 py-2">Typen</th>
+                <th className="px-3 py-2">Füllgrad</th>
+                <th className="px-3 py-2">Eindeutig</th>
+                <th className="px-3 py-2">Min / Max</th>
+                <th className="px-3 py-2">Häufigste Werte</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {properties.map((stats) => (
+                <PropertyRow key={stats.name} stats={stats} onShowRows={onShowRows} />
+              ))}
+            </tbody>
+          </table>
+          {properties.length === 0 && <p className="text-gray-500 text-center py-8">Keine Auffälligkeiten gefunden.</p>}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
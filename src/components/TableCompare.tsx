@@ -0,0 +1,347 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { ConnectionOption, TableEntity } from "../types";
+import { describeError, isAbortError } from "../utils/errorUtils";
+import { downloadFile } from "../utils/exportUtils";
+import { diffEntities, exportDiffReport, parseSnapshot, type EntityDiff, type EntityDiffStatus, type Snapshot, type TableDiff } from "../utils/diffUtils";
+
+interface TableCompareProps {
+  connections: ConnectionOption[];
+  initialTable?: string;
+  onLoadTables: (connection: ConnectionOption) => Promise<string[]>;
+  onLoadEntities: (connection: ConnectionOption, tableName: string, filter: string | undefined, abortSignal: AbortSignal) => Promise<TableEntity[]>;
+  onClose: () => void;
+}
+
+type CompareSource =
+  | { kind: "table"; connectionId: string; tableName: string; filter: string }
+  | { kind: "file"; fileName: string; snapshot: Snapshot | null; error?: string };
+
+interface CompareSourcePickerProps {
+  title: string;
+  source: CompareSource;
+  connections: ConnectionOption[];
+  onChange: (source: CompareSource) => void;
+  onLoadTables: TableCompareProps["onLoadTables"];
+}
+
+const STATUS_STYLES: Record<EntityDiffStatus, { label: string; className: string }> = {
+  added: { label: "Hinzugefügt", className: "bg-green-100 text-green-700" },
+  removed: { label: "Entfernt", className: "bg-red-100 text-red-700" },
+  changed: { label: "Geändert", className: "bg-yellow-100 text-yellow-800" },
+};
+
+// Große Vergleiche nicht vollständig rendern; der Bericht enthält immer alles
+const MAX_VISIBLE_ENTRIES = 500;
+
+const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function formatJsonValue(value: unknown): string {
+  return value === undefined ? "–" : JSON.stringify(value);
+}
+
+function CompareSourcePicker({ title, source, connections, onChange, onLoadTables }: CompareSourcePickerProps) {
+  const connectionId = source.kind === "table" ? source.connectionId : undefined;
+  const [tables, setTables] = useState<{ connectionId: string; names: string[]; error?: string } | null>(null);
+  const loadTables = useEffectEvent((id: string) => {
+    const connection = connections.find((c) => c.id === id);
+    return connection ? onLoadTables(connection) : Promise.resolve([]);
+  });
+
+  useEffect(() => {
+    if (!connectionId) return;
+    let cancelled = false;
+    loadTables(connectionId)
+      .then((names) => {
+        if (!cancelled) setTables({ connectionId, names });
+      })
+      .catch((err) => {
+        if (!cancelled) setTables({ connectionId, names: [], error: describeError(err).message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  const currentTables = tables?.connectionId === connectionId ? tables : null;
+  const tableNames = currentTables?.names;
+
+  const handleFile = async (file: File) => {
+    try {
+      onChange({ kind: "file", fileName: file.name, snapshot: parseSnapshot(file.name, await file.text()) });
+    } catch (err) {
+      onChange({ kind: "file", fileName: file.name, snapshot: null, error: describeError(err).message });
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">{title}</span>
+        <div className="flex items-center gap-1">
+          {(["table", "file"] as const).map((kind) => (
+            <button
+              key={kind}
+              onClick={() =>
+                onChange(kind === "table"
+                  ? { kind, connectionId: connections[0]?.id ?? "", tableName: "", filter: "" }
+                  : { kind, fileName: "", snapshot: null })
+              }
+              className={`px-2 py-0.5 text-xs rounded-md ${source.kind === kind ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-600 hover:bg-gray-100"}`}
+            >
+              {kind === "table" ? "Tabelle" : "Datei"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {source.kind === "table" ? (
+        <>
+          <select
+            value={source.connectionId}
+            onChange={(e) => onChange({ ...source, connectionId: e.target.value, tableName: "" })}
+            className={inputClass}
+          >
+            {connections.map((c) => (
+              <option key={c.id} value={c.id}>{c.label}</option>
+            ))}
+          </select>
+          <select
+            value={source.tableName}
+            onChange={(e) => onChange({ ...source, tableName: e.target.value })}
+            disabled={!tableNames}
+            className={inputClass}
+          >
+            <option value="">{tableNames ? "Tabelle wählen" : "Tabellen werden geladen..."}</option>
+            {tableNames?.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          {currentTables?.error && <p className="text-xs text-red-600">{currentTables.error}</p>}
+          <input
+            value={source.filter}
+            onChange={(e) => onChange({ ...source, filter: e.target.value })}
+            placeholder="OData-Filter (optional), z. B. PartitionKey eq 'A'"
+            className={`${inputClass} font-mono`}
+          />
+        </>
+      ) : (
+        <>
+          <input
+            type="file"
+            accept=".csv,.json,.ndjson,.jsonl"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+            className="block w-full text-sm text-gray-600"
+          />
+          <p className="text-xs text-gray-500">Exportdatei dieser Anwendung (CSV, JSON oder NDJSON, am besten mit Typangaben).</p>
+          {source.error && <p className="text-xs text-red-600">{source.error}</p>}
+          {source.snapshot && (
+            <p className="text-xs text-gray-600">
+              {source.snapshot.entities.length} Entitäten gelesen
+              {source.snapshot.skippedRows > 0 && `, ${source.snapshot.skippedRows} ungültige Zeilen übersprungen`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function DiffEntryRow({ entry }: { entry: EntityDiff }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const style = STATUS_STYLES[entry.status];
+  const canExpand = entry.properties.length > 0;
+
+  return (
+    <li className="border-b border-gray-100">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canExpand}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+      >
+        <span className="w-3 text-gray-400">{canExpand ? (isOpen ? "▾" : "▸") : ""}</span>
+        <span className={`text-xs px-1.5 rounded ${style.className}`}>{style.label}</span>
+        <span className="font-mono text-xs text-gray-700 truncate">{entry.partitionKey} / {entry.rowKey}</span>
+        {canExpand && (
+          <span className="ml-auto text-xs text-gray-500 truncate">{entry.properties.map((p) => p.name).join(", ")}</span>
+        )}
+      </button>
+      {isOpen && (
+        <table className="w-full text-xs mb-2">
+          <tbody>
+            {entry.properties.map((property) => (
+              <tr key={property.name} className="align-top">
+                <td className="pl-10 pr-2 py-1 font-mono text-gray-600 whitespace-nowrap">
+                  {property.name}
+                  <span className={`ml-1 px-1 rounded ${STATUS_STYLES[property.status].className}`}>
+                    {STATUS_STYLES[property.status].label}
+                  </span>
+                </td>
+                {property.jsonChanges ? (
+                  <td colSpan={2} className="px-2 py-1">
+                    <ul className="space-y-0.5">
+                      {property.jsonChanges.map((change) => (
+                        <li key={change.path} className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 font-mono">
+                          <span className="text-purple-700 break-all">{change.path}</span>
+                          <span className="text-red-700 break-all">{formatJsonValue(change.left)}</span>
+                          <span className="text-green-700 break-all">{formatJsonValue(change.right)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                ) : (
+                  <>
+                    <td className="px-2 py-1 font-mono text-red-700 break-all w-2/5">
+                      {property.left ? `${property.left.value} (${property.left.type})` : "–"}
+                    </td>
+                    <td className="px-2 py-1 font-mono text-green-700 break-all w-2/5">
+                      {property.right ? `${property.right.value} (${property.right.type})` : "–"}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+}
+
+export function TableCompare({ connections, initialTable, onLoadTables, onLoadEntities, onClose }: TableCompareProps) {
+  const firstConnectionId = connections[0]?.id ?? "";
+  const [left, setLeft] = useState<CompareSource>({ kind: "table", connectionId: firstConnectionId, tableName: initialTable ?? "", filter: "" });
+  const [right, setRight] = useState<CompareSource>({ kind: "table", connectionId: firstConnectionId, tableName: "", filter: "" });
+  const [diff, setDiff] = useState<TableDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<EntityDiffStatus | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const getLabel = (source: CompareSource) => {
+    if (source.kind === "file") return source.fileName;
+    const connection = connections.find((c) => c.id === source.connectionId);
+    return `${connection?.label ?? ""}/${source.tableName}${source.filter.trim() ? ` [${source.filter.trim()}]` : ""}`;
+  };
+
+  const isReady = (source: CompareSource) => (source.kind === "table" ? !!source.tableName : !!source.snapshot);
+
+  const loadSource = (source: CompareSource, abortSignal: AbortSignal): Promise<TableEntity[]> => {
+    if (source.kind === "file") return Promise.resolve(source.snapshot?.entities ?? []);
+    const connection = connections.find((c) => c.id === source.connectionId);
+    if (!connection) return Promise.reject(new Error("Verbindung nicht gefunden"));
+    return onLoadEntities(connection, source.tableName, source.filter.trim() || undefined, abortSignal);
+  };
+
+  const handleCompare = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const [leftEntities, rightEntities] = await Promise.all([
+        loadSource(left, controller.signal),
+        loadSource(right, controller.signal),
+      ]);
+      setDiff(diffEntities(leftEntities, rightEntities));
+      setStatusFilter(null);
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeError(err).message);
+    } finally {
+      if (abortControllerRef.current === controller) setIsLoading(false);
+    }
+  };
+
+  const handleExport = (format: "json" | "csv") => {
+    if (diff) downloadFile(exportDiffReport(diff, getLabel(left), getLabel(right), format));
+  };
+
+  const entries = diff ? diff.entries.filter((entry) => !statusFilter || entry.status === statusFilter) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Tabellen vergleichen</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="p-4 space-y-3 border-b border-gray-200">
+          <div className="flex gap-4">
+            <CompareSourcePicker title="A (Ausgangsstand)" source={left} connections={connections} onChange={setLeft} onLoadTables={onLoadTables} />
+            <CompareSourcePicker title="B (Vergleichsstand)" source={right} connections={connections} onChange={setRight} onLoadTables={onLoadTables} />
+          </div>
+          <div className="flex items-center gap-3">
+            {isLoading ? (
+              <>
+                <span className="text-sm text-gray-600">Beide Seiten werden geladen...</span>
+                <button
+                  onClick={() => abortControllerRef.current?.abort()}
+                  className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Abbrechen
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleCompare}
+                disabled={!isReady(left) || !isReady(right)}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+              >
+                Vergleichen
+              </button>
+            )}
+            <span className="text-xs text-gray-500">Abgleich über PartitionKey und RowKey; Timestamp und ETag werden ignoriert.</span>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        {diff && (
+          <>
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 text-sm">
+              <button
+                onClick={() => setStatusFilter(null)}
+                className={`px-2 py-0.5 rounded ${statusFilter === null ? "bg-blue-600 text-white" : "text-gray-600 hover:bg-gray-100"}`}
+              >
+                Alle Abweichungen ({diff.entries.length})
+              </button>
+              {(Object.keys(STATUS_STYLES) as EntityDiffStatus[]).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-2 py-0.5 rounded ${statusFilter === status ? "bg-blue-600 text-white" : STATUS_STYLES[status].className}`}
+                >
+                  {STATUS_STYLES[status].label} ({diff.counts[status]})
+                </button>
+              ))}
+              <span className="text-gray-500">Unverändert: {diff.counts.unchanged}</span>
+              <div className="ml-auto flex gap-3">
+                <button onClick={() => handleExport("csv")} className="text-blue-600 hover:text-blue-800">Bericht als CSV</button>
+                <button onClick={() => handleExport("json")} className="text-blue-600 hover:text-blue-800">Bericht als JSON</button>
+              </div>
+            </div>
+            <ul className="overflow-auto flex-1">
+              {entries.slice(0, MAX_VISIBLE_ENTRIES).map((entry) => (
+                <DiffEntryRow key={`${entry.status}-${entry.key}`} entry={entry} />
+              ))}
+              {entries.length > MAX_VISIBLE_ENTRIES && (
+                <li className="px-3 py-2 text-xs text-gray-500">
+                  {entries.length - MAX_VISIBLE_ENTRIES} weitere Abweichungen, vollständig im Bericht
+                </li>
+              )}
+              {diff.entries.length === 0 && <li className="px-3 py-8 text-center text-gray-500">Keine Abweichungen gefunden.</li>}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import type { TableInfo } from "../types";
+import { describeError, isAbortError } from "../utils/errorUtils";
+
+interface TableInfoDialogProps {
+  tableName: string;
+  onLoadInfo: (abortSignal: AbortSignal) => Promise<TableInfo>;
+  onClose: () => void;
+}
+
+export function TableInfoDialog({ tableName, onLoadInfo, onClose }: TableInfoDialogProps) {
+  const [info, setInfo] = useState<TableInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInfo = useEffectEvent((abortSignal: AbortSignal) => onLoadInfo(abortSignal));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadInfo(controller.signal)
+      .then(setInfo)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(describeError(err).message);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const prefix = info && !info.isComplete ? "≥ " : "";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Tabelle <span className="text-blue-600">{tableName}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="overflow-auto p-4 flex-1 text-sm text-gray-700 space-y-4">
+          {error && <p className="text-red-600">{error}</p>}
+          {!info && !error && <p className="text-gray-500">Tabelle wird analysiert...</p>}
+          {info && (
+            <>
+              <dl className="grid grid-cols-2 gap-2">
+                <dt className="text-gray-500">Entitäten (ungefähr)</dt>
+                <dd className="font-mono">{prefix}{info.entityCount.toLocaleString("de-DE")}</dd>
+                <dt className="text-gray-500">Partitionen</dt>
+                <dd className="font-mono">{prefix}{info.partitionCount.toLocaleString("de-DE")}</dd>
+              </dl>
+              {!info.isComplete && (
+                <p className="text-xs text-gray-500">
+                  Die Zählung wurde nach {info.entityCount.toLocaleString("de-DE")} Entitäten abgebrochen.
+                </p>
+              )}
+              <div>
+                <h4 className="font-medium text-gray-700 mb-1">
+                  Eigenschaften <span className="text-xs font-normal text-gray-500">(aus {info.sampleSize} Entitäten)</span>
+                </h4>
+                {info.propertyNames.length === 0 ? (
+                  <p className="text-gray-500">Keine Eigenschaften gefunden.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {info.propertyNames.map((name) => (
+                      <span key={name} className="text-xs font-mono px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                        {name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,154 @@
+import { useState } from "react";
+import type { TableInfo } from "../types";
+import { describeError } from "../utils/errorUtils";
+import { validateTableName } from "../utils/tableUtils";
+import { DeleteTableDialog } from "./DeleteTableDialog";
+import { TableInfoDialog } from "./TableInfoDialog";
+
 interface TableSelectorProps {
   tables: string[];
   onSelectTable: (tableName: string) => void;
+  onCreateTable: (tableName: string) => Promise<void>;
+  onDeleteTable: (tableName: string) => Promise<void>;
+  onLoadTableInfo: (tableName: string, abortSignal: AbortSignal) => Promise<TableInfo>;
+  onCompare: () => void;
   onDisconnect: () => void;
   isLoading: boolean;
 }
 
-export function TableSelector({ tables, onSelectTable, onDisconnect, isLoading }: TableSelectorProps) {
+export function TableSelector({
+  tables,
+  onSelectTable,
+  onCreateTable,
+  onDeleteTable,
+  onLoadTableInfo,
+  onCompare,
+  onDisconnect,
+  isLoading,
+}: TableSelectorProps) {
+  const [newTableName, setNewTableName] = useState<string | null>(null);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [tableToDelete, setTableToDelete] = useState<string | null>(null);
+  const [infoTable, setInfoTable] = useState<string | null>(null);
+
+  const nameError = newTableName !== null ? validateTableName(newTableName.trim(), tables) : null;
+
+  const handleCreate = async () => {
+    if (newTableName === null || nameError) return;
+    setCreateError(null);
+    setIsCreating(true);
+    try {
+      await onCreateTable(newTableName.trim());
+      setNewTableName(null);
+    } catch (err) {
+      setCreateError(describeError(err).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCancelCreate = () => {
+    setNewTableName(null);
+    setCreateError(null);
+  };
+
   return (
     <div className="w-full max-w-2xl">
+      {tableToDelete && (
+        <DeleteTableDialog
+          tableName={tableToDelete}
+          onDelete={() => onDeleteTable(tableToDelete)}
+          onClose={() => setTableToDelete(null)}
+        />
+      )}
+      {infoTable && (
+        <TableInfoDialog
+          tableName={infoTable}
+          onLoadInfo={(abortSignal) => onLoadTableInfo(infoTable, abortSignal)}
+          onClose={() => setInfoTable(null)}
+        />
+      )}
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-medium text-gray-800">Tabelle auswählen</h2>
-        <button onClick={onDisconnect} className="text-sm text-gray-600 hover:text-gray-800 underline">
-          Trennen
-        </button>
+        <div className="flex items-center gap-4">
+          {newTableName === null && (
+            <button onClick={() => setNewTableName("")} className="text-sm text-blue-600 hover:text-blue-800">
+              + Neue Tabelle
+            </button>
+          )}
+          <button onClick={onCompare} className="text-sm text-blue-600 hover:text-blue-800">
+            Vergleichen
+          </button>
+          <button onClick={onDisconnect} className="text-sm text-gray-600 hover:text-gray-800 underline">
+            Trennen
+          </button>
+        </div>
       </div>
+
+      {newTableName !== null && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={newTableName}
+              onChange={(e) => {
+                setNewTableName(e.target.value);
+                setCreateError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCreate();
+                if (e.key === "Escape") handleCancelCreate();
+              }}
+              placeholder="Tabellenname"
+              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!!nameError || isCreating}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isCreating ? "Anlegen..." : "Anlegen"}
+            </button>
+            <button onClick={handleCancelCreate} className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors">
+              Abbrechen
+            </button>
+          </div>
+          {(createError || (newTableName && nameError)) && (
+            <p className="text-sm text-red-600">{createError ?? nameError}</p>
+          )}
+        </div>
+      )}
       
       {tables.length === 0 ? (
         <p className="text-gray-500 text-center py-4">Keine Tabellen gefunden.</p>
       ) : (
         <div className="space-y-2">
           {tables.map((table) => (
-            <button
-              key={table}
-              onClick={() => onSelectTable(table)}
-              disabled={isLoading}
-              className="w-full text-left px-4 py-3 bg-white border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-between group"
-            >
-              <span className="font-medium text-gray-700 group-hover:text-blue-600">{table}</span>
-              <span className="text-gray-400 group-hover:text-blue-500">→</span>
-            </button>
+            <div key={table} className="flex items-center gap-2">
+              <button
+                onClick={() => onSelectTable(table)}
+                disabled={isLoading}
+                className="flex-1 text-left px-4 py-3 bg-white border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-between group"
+              >
+                <span className="font-medium text-gray-700 group-hover:text-blue-600">{table}</span>
+                <span className="text-gray-400 group-hover:text-blue-500">→</span>
+              </button>
+              <button
+                onClick={() => setInfoTable(table)}
+                className="px-2 py-1 text-sm text-gray-500 hover:text-blue-600"
+                title="Tabelleninformationen"
+              >
+                Info
+              </button>
+              <button
+                onClick={() => setTableToDelete(table)}
+                className="px-2 py-1 text-sm text-gray-500 hover:text-red-600"
+                title="Tabelle löschen"
+              >
+                Löschen
+              </button>
+            </div>
           ))}
         </div>
       )}
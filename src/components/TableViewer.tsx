@@ -1,208 +1,718 @@
-import { useState } from "react";
-import type { TableEntity } from "../types";
-import { analyzeContent, type ContentType } from "../utils/jsonUtils";
+import { useMemo, useState } from "react";
+import type { ColumnFilter, ConnectionOption, EdmType, EntityQuery, EntityWriteMode, ImportWriteMode, NullPlacement, SortKey, TableEntity } from "../types";
+import type { PartitionSummary, WritableEntity } from "../services/azureTableService";
+import { analyzeCell, LABEL_STYLES, type ContentAnalysis } from "../detectors";
+import { getVisibleRange, getVisibleRangeByOffsets } from "../utils/virtualization";
+import { formatPropertyValue, getColumnType, getEntityColumns, getEntityKey, getPropertyType } from "../utils/entityUtils";
+import { sortEntities, toggleSortKey } from "../utils/sortUtils";
+import { describeFilter, filterEntities } from "../utils/filterUtils";
+import { getPartitionFromFilter } from "../utils/odataUtils";
+import { CURRENT_CONNECTION_ID } from "../constants/profiles";
+import { useScrollViewport } from "../hooks/useScrollViewport";
+import { MIN_COLUMN_WIDTH, useColumnLayout } from "../hooks/useColumnLayout";
 import { ContentModal } from "./ContentModal";
+import { QueryPanel } from "./QueryPanel";
+import { PagingBar } from "./PagingBar";
+import { EntityEditor } from "./EntityEditor";
+import { ExportDialog } from "./ExportDialog";
+import { ImportWizard } from "./ImportWizard";
+import { ColumnFilterPopover } from "./ColumnFilterPopover";
+import { HighlightedText } from "./HighlightedText";
+import { ColumnChooser } from "./ColumnChooser";
+import { TypeBadge } from "./TypeBadge";
+import { EntityDetailPanel } from "./EntityDetailPanel";
+import { SchemaAnalysisDialog } from "./SchemaAnalysisDialog";
+import { PartitionBrowser } from "./PartitionBrowser";
+import { CopyDialog } from "./CopyDialog";
 
 interface TableViewerProps {
   entities: TableEntity[];
   tableName: string;
+  // Schlüssel für die gespeicherte Spaltenansicht, aus Konto und Tabelle
+  layoutKey: string;
+  query?: EntityQuery;
+  onQueryChange: (query: EntityQuery | undefined) => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  pageSize: number;
+  onPageSizeChange: (size: number) => void;
+  onLoadMore: () => void;
+  onLoadAll: () => void;
+  onCancelLoading: () => void;
+  onSaveEntity: (entity: WritableEntity, mode: EntityWriteMode, original: TableEntity | undefined, force: boolean) => Promise<void>;
+  onDeleteEntity: (entity: TableEntity, force: boolean) => Promise<void>;
+  onLoadAllEntities: (abortSignal: AbortSignal) => Promise<TableEntity[]>;
+  onSubmitBatch: (entities: WritableEntity[], mode: ImportWriteMode, abortSignal: AbortSignal) => Promise<void>;
+  onReload: () => void;
+  onLoadPartitions: (onProgress: (partitions: PartitionSummary[]) => void, abortSignal: AbortSignal) => Promise<PartitionSummary[]>;
+  onLoadPartition: (partitionKey: string) => Promise<void>;
+  onShowAllPartitions: () => Promise<void>;
+  onCompare: () => void;
+  // Ziele für das Kopieren: aktuelle Verbindung und gespeicherte Profile
+  connections: ConnectionOption[];
+  onLoadConnectionTables: (connection: ConnectionOption) => Promise<string[]>;
+  onFetchExistingKeys: (
+    connection: ConnectionOption,
+    tableName: string,
+    keys: { partitionKey: string; rowKey: string }[],
+    abortSignal: AbortSignal
+  ) => Promise<Set<string>>;
+  onCopyBatch: (
+    connection: ConnectionOption,
+    tableName: string,
+    entities: WritableEntity[],
+    mode: ImportWriteMode,
+    abortSignal: AbortSignal
+  ) => Promise<void>;
+  // Alle Seiten der aktuellen Abfrage, im Gegensatz zu onLoadAllEntities nicht die ganze Tabelle
+  onLoadQueryEntities: (abortSignal: AbortSignal) => Promise<TableEntity[]>;
+  // Von App geöffnete Dialoge (z.B. Tabellenvergleich) liegen über der Ansicht
+  isCovered: boolean;
+  sortKeys: SortKey[];
+  onSortKeysChange: (keys: SortKey[]) => void;
+  // Die in der Detailansicht geöffnete Entität ist Teil der URL und wird daher von außen gesteuert
+  selectedEntity: TableEntity | null;
+  onSelectEntity: (entity: TableEntity | null) => void;
+  tablesHref: string;
   onDisconnect: () => void;
-  onBackToTables: () => void;
 }
 
-interface ModalState {
-  content: unknown;
-  type: ContentType;
+interface FilterPopoverState {
+  column: string;
+  position: { top: number; left: number };
 }
 
-export function TableViewer({ entities, tableName, onDisconnect, onBackToTables }: TableViewerProps) {
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
-  const [modalState, setModalState] = useState<ModalState | null>(null);
-
-  const formatTimestamp = (value: string): string => {
-    const date = new Date(value);
-    if (isNaN(date.getTime())) return value;
-    return date.toLocaleString("de-DE", {
-      timeZone: "UTC",
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit"
-    }) + " UTC";
+const ROW_HEIGHT = 45;
+const ACTION_COLUMN_WIDTH = 64;
+const ROW_OVERSCAN = 10;
+const COLUMN_OVERSCAN = 2;
+
+export function TableViewer({
+  entities,
+  tableName,
+  layoutKey,
+  query,
+  onQueryChange,
+  hasMore,
+  isLoadingMore,
+  pageSize,
+  onPageSizeChange,
+  onLoadMore,
+  onLoadAll,
+  onCancelLoading,
+  onSaveEntity,
+  onDeleteEntity,
+  onLoadAllEntities,
+  onSubmitBatch,
+  onReload,
+  onLoadPartitions,
+  onLoadPartition,
+  onShowAllPartitions,
+  onCompare,
+  connections,
+  onLoadConnectionTables,
+  onFetchExistingKeys,
+  onCopyBatch,
+  onLoadQueryEntities,
+  isCovered,
+  sortKeys,
+  onSortKeysChange,
+  selectedEntity,
+  onSelectEntity,
+  tablesHref,
+  onDisconnect,
+}: TableViewerProps) {
+  const [nullPlacement, setNullPlacement] = useState<NullPlacement>("last");
+  const [modalState, setModalState] = useState<ContentAnalysis | null>(null);
+  // Ohne Entität wird eine neue angelegt
+  const [editorState, setEditorState] = useState<{ entity?: TableEntity } | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showPartitions, setShowPartitions] = useState(false);
+  const [showCopy, setShowCopy] = useState(false);
+  // Zum Kopieren markierte Zeilen, unabhängig von der in der Detailansicht geöffneten Entität
+  const [checkedKeys, setCheckedKeys] = useState<Set<string>>(() => new Set());
+  const [search, setSearch] = useState("");
+  const [columnFilters, setColumnFilters] = useState<Record<string, ColumnFilter>>({});
+  const [filterPopover, setFilterPopover] = useState<FilterPopoverState | null>(null);
+  const [chooserPosition, setChooserPosition] = useState<{ top: number; left: number } | null>(null);
+  const [resizing, setResizing] = useState<{ column: string; width: number } | null>(null);
+  const { ref: scrollRef, viewport, revealRange } = useScrollViewport<HTMLDivElement>();
+
+  const handleSort = (column: string, e: React.MouseEvent) => {
+    onSortKeysChange(toggleSortKey(sortKeys, column, e.shiftKey));
   };
 
-  const formatValue = (value: unknown, column?: string): string => {
-    if (value === null || value === undefined) return "-";
-    if (column === "timestamp" && typeof value === "string") {
-      return formatTimestamp(value);
+  const handleCellClick = (analysis: ContentAnalysis, e: React.MouseEvent) => {
+    if (analysis.isClickable) {
+      e.stopPropagation();
+      setModalState(analysis);
     }
-    if (typeof value === "object") return JSON.stringify(value);
-    return String(value);
   };
 
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-    } else {
-      setSortColumn(column);
-      setSortDirection("asc");
-    }
+  const handleOpenFilter = (column: string, e: React.MouseEvent<HTMLElement>) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFilterPopover({ column, position: { top: rect.bottom + 4, left: rect.left } });
   };
 
-  const handleCellClick = (value: unknown) => {
-    const analysis = analyzeContent(value);
-    if (analysis.isClickable) {
-      setModalState({ content: analysis.parsed, type: analysis.type });
+  const handleSetFilter = (column: string, filter: ColumnFilter | null) => {
+    setColumnFilters((prev) => {
+      const next = { ...prev };
+      if (filter) next[column] = filter;
+      else delete next[column];
+      return next;
+    });
+    setFilterPopover(null);
+  };
+
+  const sortedColumns = useMemo(() => getEntityColumns(entities), [entities]);
+
+  const columnTypes = useMemo(() => {
+    const types: Record<string, EdmType | null> = {};
+    for (const column of sortedColumns) {
+      types[column] = getColumnType(entities, column);
     }
+    return types;
+  }, [entities, sortedColumns]);
+
+  const columnLayout = useColumnLayout(layoutKey, sortedColumns);
+  const { pinnedColumns, scrollColumns } = columnLayout;
+  const displayColumns = useMemo(() => [...pinnedColumns, ...scrollColumns], [pinnedColumns, scrollColumns]);
+
+  // Erst filtern, dann sortieren: so wird nur die Treffermenge sortiert
+  const filteredEntities = useMemo(
+    () => filterEntities(entities, search, columnFilters, columnTypes),
+    [entities, search, columnFilters, columnTypes]
+  );
+
+  const sortedEntities = useMemo(
+    () => sortEntities(filteredEntities, sortKeys, nullPlacement),
+    [filteredEntities, sortKeys, nullPlacement]
+  );
+
+  const isFiltered = filteredEntities !== entities;
+
+  const checkedEntities = useMemo(
+    () => (checkedKeys.size > 0 ? entities.filter((entity) => checkedKeys.has(getEntityKey(entity))) : []),
+    [entities, checkedKeys]
+  );
+  const isViewChecked = sortedEntities.length > 0 && sortedEntities.every((entity) => checkedKeys.has(getEntityKey(entity)));
+
+  const toggleChecked = (entity: TableEntity) => {
+    const key = getEntityKey(entity);
+    setCheckedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
   };
 
-  const sortedEntities = [...entities].sort((a, b) => {
-    if (!sortColumn) return 0;
-    const aVal = a[sortColumn];
-    const bVal = b[sortColumn];
-    
-    if (aVal === null || aVal === undefined) return 1;
-    if (bVal === null || bVal === undefined) return -1;
-    
-    const aStr = String(aVal);
-    const bStr = String(bVal);
-    
-    const comparison = aStr.localeCompare(bStr, undefined, { numeric: true });
-    return sortDirection === "asc" ? comparison : -comparison;
-  });
+  const toggleViewChecked = () => {
+    setCheckedKeys((prev) => {
+      const next = new Set(prev);
+      for (const entity of sortedEntities) {
+        if (isViewChecked) next.delete(getEntityKey(entity));
+        else next.add(getEntityKey(entity));
+      }
+      return next;
+    });
+  };
+
+  // Das gesamte Abfrageergebnis mit denselben Filtern wie die Ansicht
+  const handleLoadCopySource = async (abortSignal: AbortSignal) =>
+    filterEntities(await onLoadQueryEntities(abortSignal), search, columnFilters, columnTypes);
+
+  const selectedKey = selectedEntity ? getEntityKey(selectedEntity) : null;
+  const selectedIndex = useMemo(
+    () => (selectedKey ? sortedEntities.findIndex((entity) => getEntityKey(entity) === selectedKey) : -1),
+    [sortedEntities, selectedKey]
+  );
+
+  const handleNavigate = (offset: number) => {
+    const index = selectedIndex + offset;
+    if (selectedIndex === -1 || index < 0 || index >= sortedEntities.length) return;
+    onSelectEntity(sortedEntities[index]);
+
+    // Zeile samt fixiertem Tabellenkopf (etwa eine Zeilenhöhe) sichtbar halten
+    revealRange(index * ROW_HEIGHT, 2 * ROW_HEIGHT);
+  };
+
+  const getColumnWidth = (column: string) =>
+    resizing?.column === column ? resizing.width : columnLayout.getWidth(column);
+
+  const handleResizeStart = (column: string, e: React.PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    const startX = e.clientX;
+    const startWidth = columnLayout.getWidth(column);
+    const toWidth = (clientX: number) => Math.max(MIN_COLUMN_WIDTH, startWidth + clientX - startX);
+
+    // Während des Ziehens nur lokal aktualisieren, gespeichert wird beim Loslassen
+    const handleMove = (event: PointerEvent) => setResizing({ column, width: toWidth(event.clientX) });
+    const handleUp = (event: PointerEvent) => {
+      handle.removeEventListener("pointermove", handleMove);
+      columnLayout.setWidth(column, toWidth(event.clientX));
+      setResizing(null);
+    };
+    handle.setPointerCapture(e.pointerId);
+    handle.addEventListener("pointermove", handleMove);
+    handle.addEventListener("pointerup", handleUp, { once: true });
+  };
+
+  const pagingBar = (
+    <PagingBar
+      loadedCount={entities.length}
+      hasMore={hasMore}
+      isLoading={isLoadingMore}
+      pageSize={pageSize}
+      onPageSizeChange={onPageSizeChange}
+      onLoadMore={onLoadMore}
+      onLoadAll={onLoadAll}
+      onCancel={onCancelLoading}
+    />
+  );
+
+  const newEntityButton = (
+    <button
+      onClick={() => setEditorState({})}
+      className="text-sm text-blue-600 hover:text-blue-800"
+    >
+      + Neue Entität
+    </button>
+  );
+
+  const importButton = (
+    <button onClick={() => setShowImport(true)} className="text-sm text-blue-600 hover:text-blue-800">
+      Importieren
+    </button>
+  );
+
+  const importWizard = showImport && (
+    <ImportWizard
+      tableName={tableName}
+      onSubmitBatch={onSubmitBatch}
+      onFinished={onReload}
+      onClose={() => setShowImport(false)}
+    />
+  );
+
+  const entityEditor = editorState && (
+    <EntityEditor
+      entity={editorState.entity}
+      onSave={(entity, mode, force) => onSaveEntity(entity, mode, editorState.entity, force)}
+      onDelete={onDeleteEntity}
+      onClose={() => setEditorState(null)}
+    />
+  );
 
   if (entities.length === 0) {
     return (
       <div className="w-full">
+        {entityEditor}
+        {importWizard}
         <div className="flex justify-between items-center mb-4">
           <div className="flex items-center gap-4">
-            <button 
-              onClick={onBackToTables} 
-              className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
-            >
+            <a href={tablesHref} className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1">
               ← Tabellen
-            </button>
+            </a>
             <h2 className="text-xl font-semibold text-gray-800">
               <span className="text-blue-600">{tableName}</span>
             </h2>
+            {newEntityButton}
+            {importButton}
           </div>
           <button onClick={onDisconnect} className="text-sm text-gray-600 hover:text-gray-800 underline">
             Trennen
           </button>
         </div>
+        <QueryPanel key={query?.filter ?? ""} query={query} columns={[]} onApply={onQueryChange} />
         <p className="text-gray-500 text-center py-8">Keine Einträge gefunden.</p>
+        {hasMore && pagingBar}
       </div>
     );
   }
 
-  const columns = Array.from(new Set(entities.flatMap((entity) => Object.keys(entity))));
-  const priorityColumns = ["partitionKey", "rowKey", "timestamp"];
-  const sortedColumns = [
-    ...priorityColumns.filter((col) => columns.includes(col)),
-    ...columns.filter((col) => !priorityColumns.includes(col)).sort(),
-  ];
-
-  const getLabelStyle = (color: string) => {
-    const styles: Record<string, string> = {
-      purple: "bg-purple-100 text-purple-600",
-      green: "bg-green-100 text-green-600", 
-      blue: "bg-blue-100 text-blue-600"
-    };
-    return styles[color] || "bg-gray-100 text-gray-600";
+  // Fixierte Spalten werden immer gerendert und kleben links neben der Aktionsspalte
+  const pinnedOffsets: number[] = [];
+  let pinnedWidth = 0;
+  for (const column of pinnedColumns) {
+    pinnedOffsets.push(ACTION_COLUMN_WIDTH + pinnedWidth);
+    pinnedWidth += getColumnWidth(column);
+  }
+  const columnOffsets = [0];
+  for (const column of scrollColumns) columnOffsets.push(columnOffsets[columnOffsets.length - 1] + getColumnWidth(column));
+  const scrollWidth = columnOffsets[columnOffsets.length - 1];
+
+  const rowRange = getVisibleRange(viewport.scrollTop, viewport.height, ROW_HEIGHT, sortedEntities.length, ROW_OVERSCAN);
+  const columnRange = getVisibleRangeByOffsets(
+    viewport.scrollLeft,
+    Math.max(0, viewport.width - ACTION_COLUMN_WIDTH - pinnedWidth),
+    columnOffsets,
+    COLUMN_OVERSCAN
+  );
+  const visibleEntities = sortedEntities.slice(rowRange.start, rowRange.end);
+  const visibleColumns = scrollColumns.slice(columnRange.start, columnRange.end);
+  const paddingTop = rowRange.start * ROW_HEIGHT;
+  const paddingBottom = (sortedEntities.length - rowRange.end) * ROW_HEIGHT;
+  const paddingLeft = columnOffsets[columnRange.start];
+  const paddingRight = scrollWidth - columnOffsets[columnRange.end];
+
+  const renderHeaderCell = (column: string, left?: number) => {
+    const sortIndex = sortKeys.findIndex((key) => key.column === column);
+    return (
+      <th
+        key={column}
+        onClick={(e) => handleSort(column, e)}
+        title="Klicken zum Sortieren, Umschalt+Klick für weitere Sortierschlüssel"
+        style={{ width: getColumnWidth(column), left }}
+        className={`px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap cursor-pointer hover:bg-gray-100 select-none ${left !== undefined ? "sticky z-10 bg-gray-50" : "relative"} ${column === pinnedColumns[pinnedColumns.length - 1] ? "border-r border-gray-200" : ""}`}
+      >
+        <div className="flex items-center gap-1">
+          <span className="truncate">{column}</span>
+          {columnTypes[column] && <TypeBadge type={columnTypes[column]} />}
+          {sortIndex !== -1 && (
+            <span className="text-blue-600 normal-case">
+              {sortKeys[sortIndex].direction === "asc" ? "↑" : "↓"}
+              {sortKeys.length > 1 && <sub>{sortIndex + 1}</sub>}
+            </span>
+          )}
+          <button
+            onClick={(e) => handleOpenFilter(column, e)}
+            className={`ml-auto shrink-0 px-1 rounded ${columnFilters[column] ? "text-blue-600" : "text-gray-300 hover:text-gray-600"}`}
+            title="Spalte filtern"
+          >
+            ⏷
+          </button>
+        </div>
+        <span
+          onPointerDown={(e) => handleResizeStart(column, e)}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+          title="Breite ändern"
+        />
+      </th>
+    );
   };
 
-  const renderCell = (value: unknown, column: string) => {
-    const analysis = analyzeContent(value);
-    const displayValue = formatValue(value, column);
+  const renderBodyCell = (entity: TableEntity, column: string, isSelected: boolean, left?: number) => {
+    const value = entity[column];
+    const type = getPropertyType(entity, column);
+    const analysis = analyzeCell(entity, column);
+    return (
+      <td
+        key={column}
+        style={{ left }}
+        className={`px-4 py-3 text-sm text-gray-700 whitespace-nowrap truncate ${analysis.isClickable ? "cursor-pointer" : ""} ${left !== undefined ? `sticky ${isSelected ? "bg-blue-50" : "bg-white group-hover:bg-gray-50"}` : ""} ${column === pinnedColumns[pinnedColumns.length - 1] ? "border-r border-gray-200" : ""}`}
+        title={formatPropertyValue(value, type)}
+        onClick={(e) => handleCellClick(analysis, e)}
+      >
+        {renderCell(value, type, column, analysis)}
+      </td>
+    );
+  };
+
+  const renderCell = (value: unknown, type: EdmType, column: string, analysis: ContentAnalysis) => {
+    const columnType = columnTypes[column];
+    const filter = columnFilters[column];
+    const highlightQuery = search.trim() || (filter?.operator === "contains" ? filter.value : "");
+    const displayValue = <HighlightedText text={formatPropertyValue(value, type)} query={highlightQuery} />;
+    // Typ nur an Zellen anzeigen, die vom vorherrschenden Typ der Spalte abweichen
+    const typeBadge = value !== undefined && value !== null && type !== columnType && <TypeBadge type={type} />;
     
     if (analysis.isClickable) {
-      const textColorClass = analysis.type === "json" ? "text-purple-600 hover:text-purple-800" 
-        : analysis.type === "csv" ? "text-green-600 hover:text-green-800"
-        : "text-blue-600 hover:text-blue-800";
-      
+      const styles = LABEL_STYLES[analysis.labelColor || "gray"];
+
       return (
-        <span className={`flex items-center gap-1 cursor-pointer ${textColorClass}`}>
-          <span className={`text-xs px-1 rounded ${getLabelStyle(analysis.labelColor)}`}>
+        <span className={`flex items-center gap-1 cursor-pointer ${styles.text}`}>
+          {typeBadge}
+          <span className={`text-xs px-1 rounded ${styles.label}`}>
             {analysis.label}
           </span>
           <span className="truncate">{displayValue}</span>
         </span>
       );
     }
+    if (typeBadge) {
+      return (
+        <span className="flex items-center gap-1">
+          {typeBadge}
+          <span className="truncate">{displayValue}</span>
+        </span>
+      );
+    }
     return displayValue;
   };
 
   return (
     <div className="w-full">
       {modalState !== null && (
-        <ContentModal 
-          content={modalState.content} 
-          type={modalState.type} 
-          onClose={() => setModalState(null)} 
+        <ContentModal
+          analysis={modalState}
+          onClose={() => setModalState(null)}
+        />
+      )}
+      {selectedEntity && (
+        <EntityDetailPanel
+          key={selectedKey}
+          entity={selectedEntity}
+          index={selectedIndex}
+          total={sortedEntities.length}
+          isKeyboardActive={!isCovered && !modalState && !editorState && !showExport && !showImport && !showAnalysis && !showCopy}
+          onPrevious={() => handleNavigate(-1)}
+          onNext={() => handleNavigate(1)}
+          onEdit={() => setEditorState({ entity: selectedEntity })}
+          onClose={() => onSelectEntity(null)}
+        />
+      )}
+      {entityEditor}
+      {importWizard}
+      {showAnalysis && (
+        <SchemaAnalysisDialog
+          entities={entities}
+          hasMore={hasMore}
+          onShowRows={(column, filter) => {
+            handleSetFilter(column, filter);
+            setShowAnalysis(false);
+          }}
+          onClose={() => setShowAnalysis(false)}
+        />
+      )}
+      {showCopy && (
+        <CopyDialog
+          tableName={tableName}
+          selectedEntities={checkedEntities}
+          viewEntities={sortedEntities}
+          hasMore={hasMore}
+          onLoadAll={handleLoadCopySource}
+          connections={connections}
+          onLoadTables={onLoadConnectionTables}
+          onFetchExistingKeys={onFetchExistingKeys}
+          onSubmitBatch={onCopyBatch}
+          onFinished={(target) => {
+            if (target.connection.id === CURRENT_CONNECTION_ID && target.tableName === tableName) onReload();
+          }}
+          onClose={() => setShowCopy(false)}
+        />
+      )}
+      {showExport && (
+        <ExportDialog
+          entities={sortedEntities}
+          tableName={tableName}
+          onLoadAll={onLoadAllEntities}
+          onClose={() => setShowExport(false)}
         />
       )}
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center gap-4">
-          <button 
-            onClick={onBackToTables} 
-            className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
-          >
+          <a href={tablesHref} className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1">
             ← Tabellen
-          </button>
+          </a>
           <h2 className="text-xl font-semibold text-gray-800">
             <span className="text-blue-600">{tableName}</span>
-            <span className="text-sm font-normal text-gray-500 ml-2">({entities.length} Einträge)</span>
+            <span className="text-sm font-normal text-gray-500 ml-2">
+              ({isFiltered && `${sortedEntities.length} von `}{entities.length}{hasMore ? "+" : ""} Einträge)
+            </span>
           </h2>
+          {newEntityButton}
+          {importButton}
+          <button onClick={() => setShowExport(true)} className="text-sm text-blue-600 hover:text-blue-800">
+            Exportieren
+          </button>
+          <button onClick={() => setShowCopy(true)} className="text-sm text-blue-600 hover:text-blue-800">
+            Kopieren{checkedEntities.length > 0 && ` (${checkedEntities.length})`}
+          </button>
+          <button
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              setChooserPosition({ top: rect.bottom + 4, left: rect.left });
+            }}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Spalten{displayColumns.length < sortedColumns.length && ` (${displayColumns.length}/${sortedColumns.length})`}
+          </button>
+          <button onClick={() => setShowAnalysis(true)} className="text-sm text-blue-600 hover:text-blue-800">
+            Analyse
+          </button>
+          <button
+            onClick={() => setShowPartitions(!showPartitions)}
+            className={`text-sm ${showPartitions ? "text-blue-800 underline" : "text-blue-600 hover:text-blue-800"}`}
+          >
+            Partitionen
+          </button>
+          <button onClick={onCompare} className="text-sm text-blue-600 hover:text-blue-800">
+            Vergleichen
+          </button>
         </div>
         <button onClick={onDisconnect} className="text-sm text-gray-600 hover:text-gray-800 underline">
           Trennen
         </button>
       </div>
-      <div className="overflow-x-auto border border-gray-200 rounded-lg shadow">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              {sortedColumns.map((column) => (
-                <th
-                  key={column}
-                  onClick={() => handleSort(column)}
-                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap cursor-pointer hover:bg-gray-100 select-none"
-                >
-                  <div className="flex items-center gap-1">
-                    {column}
-                    {sortColumn === column && (
-                      <span className="text-blue-600">{sortDirection === "asc" ? "↑" : "↓"}</span>
-                    )}
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {sortedEntities.map((entity, idx) => (
-              <tr key={`${entity.partitionKey}-${entity.rowKey}-${idx}`} className="hover:bg-gray-50">
-                {sortedColumns.map((column) => {
-                  const value = entity[column];
-                  const analysis = analyzeContent(value);
+      <QueryPanel key={query?.filter ?? ""} query={query} columns={sortedColumns} onApply={onQueryChange} />
+      {chooserPosition && (
+        <ColumnChooser
+          columns={columnLayout.orderedColumns}
+          hidden={columnLayout.layout.hidden}
+          pinned={columnLayout.layout.pinned}
+          position={chooserPosition}
+          onToggleHidden={columnLayout.toggleHidden}
+          onTogglePinned={columnLayout.togglePinned}
+          onMove={columnLayout.moveColumn}
+          onShowAll={columnLayout.showAll}
+          onHideAll={columnLayout.hideAll}
+          onReset={columnLayout.reset}
+          onClose={() => setChooserPosition(null)}
+        />
+      )}
+      {filterPopover && (
+        <ColumnFilterPopover
+          column={filterPopover.column}
+          type={columnTypes[filterPopover.column] ?? null}
+          filter={columnFilters[filterPopover.column]}
+          position={filterPopover.position}
+          onApply={(filter) => handleSetFilter(filterPopover.column, filter)}
+          onRemove={() => handleSetFilter(filterPopover.column, null)}
+          onClose={() => setFilterPopover(null)}
+        />
+      )}
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="In geladenen Einträgen suchen..."
+          className="w-72 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {Object.entries(columnFilters).map(([column, filter]) => (
+          <span key={column} className="flex items-center gap-1 text-xs bg-blue-50 text-blue-700 border border-blue-200 rounded px-2 py-1">
+            <button onClick={(e) => handleOpenFilter(column, e)} className="hover:underline">
+              <span className="font-mono">{column}</span> {describeFilter(filter)}
+            </button>
+            <button onClick={() => handleSetFilter(column, null)} className="text-blue-400 hover:text-blue-700" title="Filter entfernen">
+              ×
+            </button>
+          </span>
+        ))}
+        {checkedEntities.length > 0 && (
+          <span className="flex items-center gap-2 text-sm text-gray-600">
+            {checkedEntities.length} ausgewählt
+            <button onClick={() => setCheckedKeys(new Set())} className="text-gray-600 hover:text-gray-800 underline">
+              Auswahl aufheben
+            </button>
+          </span>
+        )}
+        {isFiltered && (
+          <button
+            onClick={() => {
+              setSearch("");
+              setColumnFilters({});
+            }}
+            className="text-sm text-gray-600 hover:text-gray-800 underline"
+          >
+            Filter zurücksetzen
+          </button>
+        )}
+        {sortKeys.length > 0 && (
+          <div className="ml-auto flex items-center gap-3 text-sm text-gray-600">
+            <label className="flex items-center gap-1">
+              Leere Werte
+              <select
+                value={nullPlacement}
+                onChange={(e) => setNullPlacement(e.target.value as NullPlacement)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="first">zuerst</option>
+                <option value="last">zuletzt</option>
+              </select>
+            </label>
+            <button onClick={() => onSortKeysChange([])} className="text-gray-600 hover:text-gray-800 underline">
+              Sortierung aufheben
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="flex gap-4 items-start">
+        {showPartitions && (
+          <PartitionBrowser
+            selectedPartition={getPartitionFromFilter(query?.filter)}
+            onLoadPartitions={onLoadPartitions}
+            onSelectPartition={onLoadPartition}
+            onShowAll={onShowAllPartitions}
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <div ref={scrollRef} className="overflow-auto max-h-[70vh] border border-gray-200 rounded-lg shadow">
+            <table
+              className="min-w-full table-fixed divide-y divide-gray-200"
+              style={{ width: ACTION_COLUMN_WIDTH + pinnedWidth + scrollWidth }}
+            >
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th style={{ width: ACTION_COLUMN_WIDTH }} className="sticky left-0 z-10 bg-gray-50 text-left pl-3">
+                    <input
+                      type="checkbox"
+                      checked={isViewChecked}
+                      onChange={toggleViewChecked}
+                      title={isViewChecked ? "Auswahl der angezeigten Zeilen aufheben" : "Alle angezeigten Zeilen auswählen"}
+                    />
+                  </th>
+                  {pinnedColumns.map((column, index) => renderHeaderCell(column, pinnedOffsets[index]))}
+                  {paddingLeft > 0 && <th style={{ width: paddingLeft }} />}
+                  {visibleColumns.map((column) => renderHeaderCell(column))}
+                  {paddingRight > 0 && <th style={{ width: paddingRight }} />}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+                {visibleEntities.map((entity, idx) => {
+                  const isSelected = rowRange.start + idx === selectedIndex;
                   return (
-                    <td
-                      key={column}
-                      className={`px-4 py-3 text-sm text-gray-700 whitespace-nowrap max-w-xs truncate ${analysis.isClickable ? "cursor-pointer" : ""}`}
-                      title={formatValue(value, column)}
-                      onClick={() => analysis.isClickable && handleCellClick(value)}
+                    <tr
+                      key={`${entity.partitionKey}-${entity.rowKey}-${rowRange.start + idx}`}
+                      style={{ height: ROW_HEIGHT }}
+                      className={`group cursor-pointer ${isSelected ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                      onClick={() => onSelectEntity(isSelected ? null : entity)}
                     >
-                      {renderCell(value, column)}
-                    </td>
+                      <td className={`sticky left-0 pl-3 ${isSelected ? "bg-blue-50" : "bg-white group-hover:bg-gray-50"}`}>
+                        <input
+                          type="checkbox"
+                          checked={checkedKeys.has(getEntityKey(entity))}
+                          onChange={() => toggleChecked(entity)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="mr-2 align-middle"
+                          title="Zum Kopieren auswählen"
+                        />
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditorState({ entity });
+                          }}
+                          className="text-gray-400 hover:text-blue-600"
+                          title="Entität bearbeiten"
+                        >
+                          ✎
+                        </button>
+                      </td>
+                      {pinnedColumns.map((column, index) => renderBodyCell(entity, column, isSelected, pinnedOffsets[index]))}
+                      {paddingLeft > 0 && <td />}
+                      {visibleColumns.map((column) => renderBodyCell(entity, column, isSelected))}
+                      {paddingRight > 0 && <td />}
+                    </tr>
                   );
                 })}
-              </tr>
-            ))}
-          </tbody>
-        </table>
+                {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+              </tbody>
+            </table>
+          </div>
+          {sortedEntities.length === 0 && (
+            <p className="text-gray-500 text-center py-4">Keine Treffer in den geladenen Einträgen.</p>
+          )}
+        </div>
       </div>
+      {pagingBar}
     </div>
   );
 }
@@ -0,0 +1,9 @@
+import type { EdmType } from "../types";
+
+export function TypeBadge({ type }: { type: EdmType }) {
+  return (
+    <span className="text-[10px] font-normal normal-case tracking-normal px-1 rounded bg-gray-100 text-gray-500">
+      {type}
+    </span>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import type { VaultStatus } from "../hooks/useConnectionProfiles";
+
+interface VaultPanelProps {
+  status: VaultStatus;
+  autoLockMinutes: number | null;
+  saveError: string | null;
+  onEnable: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onChangeAutoLock: (minutes: number) => void;
+  onWipe: () => void;
+}
+
+type PanelMode = "idle" | "enable" | "change" | "wipe";
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function VaultPanel({
+  status,
+  autoLockMinutes,
+  saveError,
+  onEnable,
+  onUnlock,
+  onLock,
+  onChangePassphrase,
+  onChangeAutoLock,
+  onWipe,
+}: VaultPanelProps) {
+  const [mode, setMode] = useState<PanelMode>("idle");
+  const [passphrase, setPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = (next: PanelMode = "idle") => {
+    setMode(next);
+    setPassphrase("");
+    setNewPassphrase("");
+    setConfirmation("");
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const validateNew = (value: string): string | null => {
+    if (value.length < MIN_PASSPHRASE_LENGTH) return `Die Passphrase muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein`;
+    if (value !== confirmation) return "Die Passphrasen stimmen nicht überein";
+    return null;
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validateNew(newPassphrase);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    run(() => onEnable(newPassphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => onUnlock(passphrase));
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validateNew(newPassphrase);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    run(() => onChangePassphrase(passphrase, newPassphrase));
+  };
+
+  const errorBox = error && (
+    <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+  );
+
+  const wipeConfirmation = (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      Alle gespeicherten Profile unwiderruflich löschen?
+      <button
+        onClick={() => {
+          onWipe();
+          reset();
+        }}
+        className="px-3 py-1 text-sm bg-red-600 text-white hover:bg-red-700 rounded-md"
+      >
+        Löschen
+      </button>
+      <button onClick={() => reset()} className="text-sm text-gray-500 hover:text-gray-700">
+        Abbrechen
+      </button>
+    </div>
+  );
+
+  if (status === "locked") {
+    return (
+      <div className="w-full max-w-2xl border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Tresor gesperrt</h3>
+        <p className="text-sm text-gray-500">Die gespeicherten Verbindungen sind verschlüsselt. Passphrase eingeben, um sie zu entsperren.</p>
+        {mode === "wipe" ? wipeConfirmation : (
+          <form onSubmit={handleUnlock} className="flex gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoFocus
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !passphrase}
+              className="px-3 py-1 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md disabled:opacity-50 whitespace-nowrap"
+            >
+              {isBusy ? "Entsperre..." : "Entsperren"}
+            </button>
+          </form>
+        )}
+        {errorBox}
+        {mode !== "wipe" && (
+          <button onClick={() => reset("wipe")} className="text-xs text-red-600 hover:text-red-800 underline">
+            Passphrase vergessen? Tresor löschen
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (status === "disabled") {
+    if (mode !== "enable") {
+      return (
+        <button onClick={() => reset("enable")} className="text-sm text-gray-600 hover:text-gray-800 underline">
+          Gespeicherte Verbindungen mit Passphrase verschlüsseln
+        </button>
+      );
+    }
+    return (
+      <form onSubmit={handleEnable} className="w-full max-w-2xl border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Tresor aktivieren</h3>
+        <input
+          type="password"
+          value={newPassphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+          placeholder="Neue Passphrase"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Passphrase wiederholen"
+          className={inputClass}
+        />
+        {errorBox}
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={() => reset()} className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            Abbrechen
+          </button>
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="px-3 py-1 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md disabled:opacity-50"
+          >
+            Aktivieren
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl border border-gray-200 rounded-lg p-3 bg-gray-50 space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <span className="font-medium text-gray-700">Tresor entsperrt</span>
+        <label className="flex items-center gap-1">
+          Sperren nach
+          <select
+            value={autoLockMinutes ?? ""}
+            onChange={(e) => onChangeAutoLock(Number(e.target.value))}
+            className="px-2 py-0.5 border border-gray-300 rounded-md text-sm"
+          >
+            {AUTO_LOCK_OPTIONS.map((minutes) => <option key={minutes} value={minutes}>{minutes} Min.</option>)}
+          </select>
+        </label>
+        <div className="flex gap-3 ml-auto">
+          <button onClick={onLock} className="text-gray-600 hover:text-gray-800 underline">Sperren</button>
+          <button onClick={() => reset("change")} className="text-gray-600 hover:text-gray-800 underline">Passphrase ändern</button>
+          <button onClick={() => reset("wipe")} className="text-red-600 hover:text-red-800 underline">Tresor löschen</button>
+        </div>
+      </div>
+      {mode === "wipe" && wipeConfirmation}
+      {mode === "change" && (
+        <form onSubmit={handleChange} className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Aktuelle Passphrase"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            placeholder="Neue Passphrase"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Neue Passphrase wiederholen"
+            className={inputClass}
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => reset()} className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+              Abbrechen
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-3 py-1 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md disabled:opacity-50"
+            >
+              Ändern
+            </button>
+          </div>
+        </form>
+      )}
+      {saveError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
+          Profile konnten nicht im Tresor gespeichert werden: {saveError}
+        </div>
+      )}
+      {errorBox}
+    </div>
+  );
+}
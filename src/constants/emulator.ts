@@ -0,0 +1,6 @@
+// Öffentlich dokumentiertes Entwicklungskonto von Azurite und dem Storage-Emulator
+export const EMULATOR_ACCOUNT_NAME = "devstoreaccount1";
+export const EMULATOR_ACCOUNT_KEY = "Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw==";
+export const DEFAULT_EMULATOR_HOST = "127.0.0.1";
+export const DEFAULT_EMULATOR_PORT = 10002;
+export const EMULATOR_HEALTH_TIMEOUT_MS = 3000;
@@ -0,0 +1,3 @@
+// Azure Table Storage liefert maximal 1000 Entitäten pro Seite
+export const PAGE_SIZE_OPTIONS = [100, 250, 500, 1000];
+export const DEFAULT_PAGE_SIZE = 1000;
@@ -0,0 +1,15 @@
+import type { ProfileColor } from "../types";
+
+export const PROFILE_COLORS: Record<ProfileColor, string> = {
+  gray: "bg-gray-400",
+  blue: "bg-blue-500",
+  green: "bg-green-500",
+  yellow: "bg-yellow-400",
+  red: "bg-red-500",
+  purple: "bg-purple-500",
+};
+
+export const ENVIRONMENT_SUGGESTIONS = ["dev", "test", "staging", "prod"];
+
+// Kennung der gerade verbundenen Verbindung in Auswahllisten für Vergleich und Kopieren
+export const CURRENT_CONNECTION_ID = "current";
@@ -1 +1,5 @@
 export const STORAGE_KEY_CONNECTION = "atv_connectionString";
+export const STORAGE_KEY_PAGE_SIZE = "atv_pageSize";
+export const STORAGE_KEY_PROFILES = "atv_profiles";
+export const STORAGE_KEY_VAULT = "atv_vault";
+export const STORAGE_KEY_COLUMN_LAYOUTS = "atv_columnLayouts";
@@ -0,0 +1,39 @@
+import type { ContentDetector } from "./types";
+import { decodeUtf8, isBase64 } from "../utils/binaryUtils";
+import { base64ToBytes } from "../utils/entityUtils";
+import { BinaryPreview } from "../components/BinaryPreview";
+import { ContentPreview } from "../components/ContentPreview";
+
+export interface Base64Content {
+  base64: string;
+  bytes: Uint8Array;
+  text: string | null;
+}
+
+const MIN_LENGTH = 16;
+
+export const base64Detector: ContentDetector<Base64Content> = {
+  type: "base64",
+  label: "B64",
+  title: "Base64 Preview",
+  color: "gray",
+  detect: (value) => {
+    if (typeof value !== "string") return null;
+    const base64 = value.trim();
+    if (base64.length < MIN_LENGTH || !isBase64(base64)) return null;
+    // Wörter, Zahlen und Hex-Strings sind formal auch Base64
+    if (!/[a-z]/.test(base64) || !/[A-Z]/.test(base64) || /^[0-9a-fA-F]+$/.test(base64)) return null;
+    const bytes = base64ToBytes(base64);
+    const text = decodeUtf8(bytes);
+    // Ohne lesbaren Text nur bei Padding, sonst gibt es zu viele Zufallstreffer bei IDs
+    if (text === null && !base64.endsWith("=")) return null;
+    return { base64, bytes, text };
+  },
+  render: ({ base64, bytes, text }) => (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">Base64, {bytes.length} Bytes dekodiert</p>
+      {text !== null ? <ContentPreview value={text} /> : <BinaryPreview bytes={bytes} base64={base64} />}
+    </div>
+  ),
+  copyText: ({ base64, text }) => text ?? base64,
+};
@@ -0,0 +1,13 @@
+import type { ContentDetector } from "./types";
+import { base64ToBytes } from "../utils/entityUtils";
+import { BinaryPreview } from "../components/BinaryPreview";
+
+export const binaryDetector: ContentDetector<string> = {
+  type: "binary",
+  label: "BIN",
+  title: "Binary Preview",
+  color: "gray",
+  detect: (value, edmType) => (edmType === "Binary" ? String(value ?? "") : null),
+  render: (base64) => <BinaryPreview bytes={base64ToBytes(base64)} base64={base64} />,
+  copyText: (base64) => base64,
+};
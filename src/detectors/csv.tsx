@@ -0,0 +1,50 @@
+import type { ContentDetector } from "./types";
+import { tryParseCsv } from "../utils/jsonUtils";
+import { toTsv, type CsvTable } from "../utils/csvUtils";
+
+export const csvDetector: ContentDetector<CsvTable> = {
+  type: "csv",
+  label: "CSV",
+  title: "CSV Preview",
+  color: "green",
+  detect: (value) => tryParseCsv(value).parsed,
+  render: ({ rows, hasHeader, delimiter }) => {
+    const header = hasHeader ? rows[0] : null;
+    const body = hasHeader ? rows.slice(1) : rows;
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          {header && (
+            <thead className="bg-gray-100">
+              <tr>
+                {header.map((cell, idx) => (
+                  <th key={idx} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                    {cell}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+          )}
+          <tbody className="divide-y divide-gray-100">
+            {body.map((row, rowIdx) => (
+              <tr key={rowIdx} className="hover:bg-gray-50">
+                {row.map((cell, cellIdx) => (
+                  <td key={cellIdx} className="px-3 py-2 text-gray-600 whitespace-pre">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 mt-2">
+          {body.length} Zeilen, {rows[0]?.length || 0} Spalten, Trennzeichen {delimiter === "\t" ? "Tab" : `"${delimiter}"`}
+          {!header && ", ohne Kopfzeile"}
+        </p>
+      </div>
+    );
+  },
+  // Tabulatoren, damit sich die Tabelle direkt in Excel einfügen lässt
+  copyText: ({ rows }) => toTsv(rows),
+};
@@ -0,0 +1,123 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from "vitest";
+import { bytesToBase64 } from "../utils/entityUtils";
+import { base64Detector } from "./base64";
+import { binaryDetector } from "./binary";
+import { csvDetector } from "./csv";
+import { gzipDetector } from "./gzip";
+import { jsonDetector } from "./json";
+import { jwtDetector } from "./jwt";
+import { textDetector } from "./text";
+import { urlDetector } from "./url";
+import { xmlDetector } from "./xml";
+
+function toBase64Url(json: unknown): string {
+  return btoa(JSON.stringify(json)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function gzipBase64(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"));
+  return bytesToBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+describe("binaryDetector", () => {
+  it("erkennt Binary-Eigenschaften", () => {
+    expect(binaryDetector.detect("AAEC", "Binary")).toBe("AAEC");
+  });
+
+  it("ignoriert Strings", () => {
+    expect(binaryDetector.detect("AAEC", "String")).toBeNull();
+  });
+});
+
+describe("jsonDetector", () => {
+  it("erkennt Objekte und Arrays", () => {
+    expect(jsonDetector.detect("{\"a\":[1,2]}")).toEqual({ a: [1, 2] });
+  });
+
+  it("ignoriert ungültiges JSON", () => {
+    expect(jsonDetector.detect("{kein: json")).toBeNull();
+  });
+});
+
+describe("jwtDetector", () => {
+  const header = toBase64Url({ alg: "HS256", typ: "JWT" });
+  const payload = toBase64Url({ sub: "42", exp: 1700000000 });
+
+  it("dekodiert Header und Claims", () => {
+    const token = jwtDetector.detect(`${header}.${payload}.c2lnbmF0dXJl`);
+    expect(token?.header.alg).toBe("HS256");
+    expect(token?.payload).toEqual({ sub: "42", exp: 1700000000 });
+  });
+
+  it("verlangt einen Header mit alg", () => {
+    expect(jwtDetector.detect(`${toBase64Url({ typ: "JWT" })}.${payload}.sig`)).toBeNull();
+    expect(jwtDetector.detect("version.1.2")).toBeNull();
+  });
+});
+
+describe("xmlDetector", () => {
+  it("formatiert wohlgeformtes XML", () => {
+    expect(xmlDetector.detect("<a><b>1</b></a>")).toBe("<a>\n  <b>1</b>\n</a>");
+  });
+
+  it("ignoriert Text und fehlerhaftes XML", () => {
+    expect(xmlDetector.detect("kein xml")).toBeNull();
+    expect(xmlDetector.detect("<a><b></a>")).toBeNull();
+  });
+});
+
+describe("urlDetector", () => {
+  it("erkennt HTTP-Adressen", () => {
+    expect(urlDetector.detect("https://example.com/pfad?x=1")?.searchParams.get("x")).toBe("1");
+  });
+
+  it("ignoriert andere Schemata und Leerzeichen", () => {
+    expect(urlDetector.detect("ftp://example.com")).toBeNull();
+    expect(urlDetector.detect("https://example.com/mit leerzeichen")).toBeNull();
+  });
+});
+
+describe("gzipDetector", () => {
+  it("erkennt Base64-kodierte GZip-Daten und entpackt sie beim Kopieren", async () => {
+    const bytes = gzipDetector.detect(await gzipBase64("{\"komprimiert\":true}"));
+    expect(bytes).not.toBeNull();
+    expect(await gzipDetector.copyText(bytes!)).toBe("{\"komprimiert\":true}");
+  });
+
+  it("ignoriert Base64 ohne GZip-Kennung", () => {
+    expect(gzipDetector.detect(btoa("nicht komprimierter Text"))).toBeNull();
+  });
+});
+
+describe("base64Detector", () => {
+  it("dekodiert Base64-Text", () => {
+    expect(base64Detector.detect(btoa("Hallo Welt, ein Test"))?.text).toBe("Hallo Welt, ein Test");
+  });
+
+  it("ignoriert Hex-Strings und kurze Werte", () => {
+    expect(base64Detector.detect("0123456789abcdef0123456789abcdef")).toBeNull();
+    expect(base64Detector.detect("SGFsbG8=")).toBeNull();
+  });
+});
+
+describe("csvDetector", () => {
+  it("erkennt mehrzeilige Tabellen", () => {
+    expect(csvDetector.detect("a,b\n1,2")?.rows).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("ignoriert einzelne Zeilen", () => {
+    expect(csvDetector.detect("a,b,c")).toBeNull();
+  });
+});
+
+describe("textDetector", () => {
+  it("macht lange Texte anklickbar", () => {
+    const text = "x".repeat(101);
+    expect(textDetector.detect(text)).toBe(text);
+  });
+
+  it("ignoriert kurze Texte", () => {
+    expect(textDetector.detect("kurz")).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import type { ContentDetector } from "./types";
+import { decodeUtf8, gunzip, isBase64, isGzip } from "../utils/binaryUtils";
+import { base64ToBytes, bytesToBase64 } from "../utils/entityUtils";
+import { GzipPreview } from "../components/GzipPreview";
+
+export const gzipDetector: ContentDetector<Uint8Array> = {
+  type: "gzip",
+  label: "GZIP",
+  title: "GZip Preview",
+  color: "teal",
+  // Base64-kodierte GZip-Daten, erkannt an den Magic Bytes 1f 8b
+  detect: (value) => {
+    if (typeof value !== "string" || typeof DecompressionStream === "undefined") return null;
+    const trimmed = value.trim();
+    if (!trimmed.startsWith("H4sI") || !isBase64(trimmed)) return null;
+    const bytes = base64ToBytes(trimmed);
+    return isGzip(bytes) ? bytes : null;
+  },
+  render: (bytes) => <GzipPreview bytes={bytes} />,
+  copyText: async (bytes) => {
+    const result = await gunzip(bytes);
+    return decodeUtf8(result) ?? bytesToBase64(result);
+  },
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { CsvTable } from "../utils/csvUtils";
+import { analyzeContent, type ContentType } from ".";
+
+// Knifflige Zellwerte aus echten Tabellen und der erwartete Detektor
+const CORPUS: { name: string; value: unknown; type: ContentType; clickable: boolean }[] = [
+  { name: "CSV mit Komma", value: "id,name\n1,Anna\n2,Ben", type: "csv", clickable: true },
+  { name: "CSV mit Semikolon und Dezimalkomma", value: "id;preis\n1;2,50\n2;3,75", type: "csv", clickable: true },
+  { name: "CSV mit Tabulator", value: "id\tname\n1\tAnna\n2\tBen", type: "csv", clickable: true },
+  { name: "CSV mit Pipe", value: "id|name\n1|Anna\n2|Ben", type: "csv", clickable: true },
+  { name: "CSV mit Anführungszeichen", value: "name,notiz\n\"Meier, Anna\",\"sagt \"\"hi\"\"\"\nBen,ok", type: "csv", clickable: true },
+  { name: "CSV mit Umbruch im Feld", value: "name,notiz\nAnna,\"zwei\nZeilen\"\nBen,eine", type: "csv", clickable: true },
+  { name: "CSV mit BOM", value: "\uFEFFid,name\r\n1,Anna\r\n2,Ben\r\n", type: "csv", clickable: true },
+  { name: "offenes Anführungszeichen", value: "a,b\n\"offen,c", type: "text", clickable: false },
+  { name: "Fließtext mit Umbruch", value: "Hallo Welt.\nZweite Zeile ohne Struktur.", type: "text", clickable: false },
+  { name: "kurzer Text", value: "Anna", type: "text", clickable: false },
+  { name: "langer Text", value: "Lorem ipsum ".repeat(20), type: "text", clickable: true },
+  { name: "JSON-Objekt", value: "{\"a\":[1,2]}", type: "json", clickable: true },
+  { name: "JSON-Array mit Kommas und Umbrüchen", value: "[\n1,\n2\n]", type: "json", clickable: true },
+  { name: "Zahl", value: 42, type: "text", clickable: false },
+];
+
+describe("analyzeContent", () => {
+  it.each(CORPUS)("$name → $type", ({ value, type, clickable }) => {
+    const analysis = analyzeContent(value, "String");
+    expect(analysis.type).toBe(type);
+    expect(analysis.isClickable).toBe(clickable);
+  });
+
+  it("entfernt die BOM aus der ersten Zelle", () => {
+    const analysis = analyzeContent("\uFEFFid,name\n1,Anna", "String");
+    expect((analysis.parsed as CsvTable).rows[0][0]).toBe("id");
+  });
+
+  it("behält Trennzeichen und Umbrüche in quotierten Feldern", () => {
+    const analysis = analyzeContent("name,notiz\n\"Meier, Anna\",\"zwei\nZeilen\"\nBen,x", "String");
+    expect((analysis.parsed as CsvTable).rows[1]).toEqual(["Meier, Anna", "zwei\nZeilen"]);
+    expect((analysis.parsed as CsvTable).hasHeader).toBe(true);
+  });
+
+  it("untersucht keine Zahlen-, Datums- oder Guid-Spalten", () => {
+    expect(analyzeContent("a,b\n1,2", "Guid").isClickable).toBe(false);
+  });
+});
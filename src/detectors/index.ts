@@ -0,0 +1,78 @@
+import type { ReactNode } from "react";
+import type { EdmType, TableEntity } from "../types";
+import { getPropertyType } from "../utils/entityUtils";
+import type { ContentAnalysis, ContentDetector, ContentType, LabelColor } from "./types";
+import { binaryDetector } from "./binary";
+import { jsonDetector } from "./json";
+import { jwtDetector } from "./jwt";
+import { xmlDetector } from "./xml";
+import { urlDetector } from "./url";
+import { gzipDetector } from "./gzip";
+import { base64Detector } from "./base64";
+import { csvDetector } from "./csv";
+import { textDetector } from "./text";
+
+export type { ContentAnalysis, ContentDetector, ContentType, LabelColor } from "./types";
+
+// Reihenfolge ist Priorität: spezifische Formate vor allgemeinen (GZip vor Base64, CSV und Text zuletzt)
+export const CONTENT_DETECTORS: ContentDetector[] = [
+  binaryDetector,
+  jsonDetector,
+  jwtDetector,
+  xmlDetector,
+  urlDetector,
+  gzipDetector,
+  base64Detector,
+  csvDetector,
+  textDetector,
+];
+
+export const LABEL_STYLES: Record<LabelColor, { label: string; text: string }> = {
+  purple: { label: "bg-purple-100 text-purple-600", text: "text-purple-600 hover:text-purple-800" },
+  green: { label: "bg-green-100 text-green-600", text: "text-green-600 hover:text-green-800" },
+  blue: { label: "bg-blue-100 text-blue-600", text: "text-blue-600 hover:text-blue-800" },
+  gray: { label: "bg-gray-100 text-gray-600", text: "text-gray-600 hover:text-gray-800" },
+  orange: { label: "bg-orange-100 text-orange-600", text: "text-orange-600 hover:text-orange-800" },
+  yellow: { label: "bg-yellow-100 text-yellow-700", text: "text-yellow-700 hover:text-yellow-900" },
+  teal: { label: "bg-teal-100 text-teal-600", text: "text-teal-600 hover:text-teal-800" },
+};
+
+export function getDetector(type: ContentType): ContentDetector {
+  return CONTENT_DETECTORS.find((detector) => detector.type === type) ?? textDetector;
+}
+
+export function analyzeContent(value: unknown, edmType?: EdmType): ContentAnalysis {
+  const plain: ContentAnalysis = { type: "text", isClickable: false, parsed: value, label: "", labelColor: "" };
+
+  // Zahlen, Datumswerte, Guids usw. enthalten keine strukturierten Inhalte
+  if (edmType && edmType !== "String" && edmType !== "Binary") return plain;
+
+  for (const detector of CONTENT_DETECTORS) {
+    const parsed = detector.detect(value, edmType);
+    if (parsed !== null) {
+      return { type: detector.type, isClickable: true, parsed, label: detector.label, labelColor: detector.color };
+    }
+  }
+  return plain;
+}
+
+// Analyse pro Zelle einmalig berechnen; Entitäten sind unveränderlich, daher genügt eine WeakMap
+const analysisCache = new WeakMap<TableEntity, Map<string, ContentAnalysis>>();
+
+export function analyzeCell(entity: TableEntity, column: string): ContentAnalysis {
+  let entityCache = analysisCache.get(entity);
+  if (!entityCache) {
+    entityCache = new Map();
+    analysisCache.set(entity, entityCache);
+  }
+  let analysis = entityCache.get(column);
+  if (!analysis) {
+    analysis = analyzeContent(entity[column], getPropertyType(entity, column));
+    entityCache.set(column, analysis);
+  }
+  return analysis;
+}
+
+export function renderContent(analysis: ContentAnalysis): ReactNode {
+  return getDetector(analysis.type).render(analysis.parsed);
+}
@@ -0,0 +1,16 @@
+import type { ContentDetector } from "./types";
+import { tryParseJson } from "../utils/jsonUtils";
+import { JsonTreeView } from "../components/JsonTreeView";
+
+export const jsonDetector: ContentDetector = {
+  type: "json",
+  label: "JSON",
+  title: "JSON Preview",
+  color: "purple",
+  detect: (value) => {
+    const { isJson, parsed } = tryParseJson(value);
+    return isJson ? parsed : null;
+  },
+  render: (parsed) => <JsonTreeView value={parsed} />,
+  copyText: (parsed) => JSON.stringify(parsed, null, 2),
+};
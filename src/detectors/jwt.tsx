@@ -0,0 +1,40 @@
+import type { ContentDetector } from "./types";
+import { decodeBase64Url } from "../utils/binaryUtils";
+import { JwtPreview } from "../components/JwtPreview";
+
+export interface JwtToken {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signature: string;
+}
+
+const JWT_PATTERN = /^[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]{2,}\.[A-Za-z0-9_-]*$/;
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  const json = decodeBase64Url(segment);
+  if (json === null) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export const jwtDetector: ContentDetector<JwtToken> = {
+  type: "jwt",
+  label: "JWT",
+  title: "JWT Preview",
+  color: "yellow",
+  detect: (value) => {
+    if (typeof value !== "string" || !JWT_PATTERN.test(value.trim())) return null;
+    const [header, payload, signature] = value.trim().split(".");
+    const decodedHeader = decodeSegment(header);
+    // Ohne "alg" im Header ist es eher zufällig ein Text mit zwei Punkten
+    if (!decodedHeader || typeof decodedHeader.alg !== "string") return null;
+    const decodedPayload = decodeSegment(payload);
+    return decodedPayload && { header: decodedHeader, payload: decodedPayload, signature };
+  },
+  render: (token) => <JwtPreview token={token} />,
+  copyText: (token) => JSON.stringify({ header: token.header, payload: token.payload }, null, 2),
+};
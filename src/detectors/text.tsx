@@ -0,0 +1,20 @@
+import type { ContentDetector } from "./types";
+
+const LONG_TEXT_THRESHOLD = 100;
+
+export const textDetector: ContentDetector<string> = {
+  type: "text",
+  label: "TEXT",
+  title: "Text Preview",
+  color: "blue",
+  detect: (value) => {
+    const text = String(value ?? "");
+    return text.length > LONG_TEXT_THRESHOLD ? text : null;
+  },
+  render: (text) => (
+    <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-700">
+      {text}
+    </pre>
+  ),
+  copyText: (text) => text,
+};
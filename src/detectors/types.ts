@@ -0,0 +1,25 @@
+import type { ReactNode } from "react";
+import type { EdmType } from "../types";
+
+export type ContentType = "json" | "csv" | "xml" | "jwt" | "gzip" | "base64" | "url" | "binary" | "text";
+
+export type LabelColor = "purple" | "green" | "blue" | "gray" | "orange" | "yellow" | "teal";
+
+export interface ContentDetector<T = unknown> {
+  type: ContentType;
+  label: string;
+  title: string;
+  color: LabelColor;
+  // Liefert den aufbereiteten Inhalt oder null, wenn der Wert nicht zu diesem Detektor passt
+  detect(value: unknown, edmType?: EdmType): T | null;
+  render(parsed: T): ReactNode;
+  copyText(parsed: T): string | Promise<string>;
+}
+
+export interface ContentAnalysis {
+  type: ContentType;
+  isClickable: boolean;
+  parsed: unknown;
+  label: string;
+  labelColor: LabelColor | "";
+}
@@ -0,0 +1,63 @@
+import type { ContentDetector } from "./types";
+
+// Ungültige Escape-Sequenzen wie "%E0%A4%A" werden unverändert angezeigt
+function decodePathname(pathname: string): string {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return pathname;
+  }
+}
+
+export const urlDetector: ContentDetector<URL> = {
+  type: "url",
+  label: "URL",
+  title: "URL Preview",
+  color: "blue",
+  detect: (value) => {
+    if (typeof value !== "string") return null;
+    const trimmed = value.trim();
+    if (!/^https?:\/\/\S+$/i.test(trimmed)) return null;
+    try {
+      return new URL(trimmed);
+    } catch {
+      return null;
+    }
+  },
+  render: (url) => {
+    const params = [...url.searchParams.entries()];
+    return (
+      <div className="space-y-4 text-sm">
+        <a href={url.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline break-all">
+          {url.href}
+        </a>
+        <table>
+          <tbody>
+            <tr><td className="pr-4 text-gray-500">Host</td><td className="font-mono text-gray-700">{url.host}</td></tr>
+            <tr><td className="pr-4 text-gray-500">Pfad</td><td className="font-mono text-gray-700 break-all">{decodePathname(url.pathname)}</td></tr>
+            {url.hash && <tr><td className="pr-4 text-gray-500">Fragment</td><td className="font-mono text-gray-700">{url.hash}</td></tr>}
+          </tbody>
+        </table>
+        {params.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Parameter</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Wert</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {params.map(([name, paramValue], index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 font-mono text-gray-700">{name}</td>
+                  <td className="px-3 py-2 font-mono text-gray-600 break-all">{paramValue}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  },
+  copyText: (url) => url.href,
+};
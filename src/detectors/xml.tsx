@@ -0,0 +1,20 @@
+import type { ContentDetector } from "./types";
+import { formatXml, tryParseXml } from "../utils/xmlUtils";
+
+export const xmlDetector: ContentDetector<string> = {
+  type: "xml",
+  label: "XML",
+  title: "XML Preview",
+  color: "orange",
+  detect: (value) => {
+    if (typeof value !== "string") return null;
+    const document = tryParseXml(value);
+    return document && formatXml(document, value);
+  },
+  render: (formatted) => (
+    <pre className="text-sm font-mono whitespace-pre-wrap break-words text-gray-700">
+      {formatted}
+    </pre>
+  ),
+  copyText: (formatted) => formatted,
+};
@@ -0,0 +1,18 @@
+import { useState } from "react";
+
+// Schreiben in die Zwischenablage schlägt ohne Berechtigung, Fokus oder sicheren Kontext fehl
+export function useClipboard() {
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  // Der Text wird erst hier erzeugt, damit auch Fehler beim Aufbereiten angezeigt werden
+  const copy = async (getText: () => string | Promise<string>) => {
+    setCopyError(null);
+    try {
+      await navigator.clipboard.writeText(await getText());
+    } catch (err) {
+      setCopyError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    }
+  };
+
+  return { copy, copyError };
+}
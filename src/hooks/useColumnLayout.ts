@@ -0,0 +1,85 @@
+import { useMemo, useRef, useState } from "react";
+import type { ColumnLayout } from "../types";
+import { EMPTY_COLUMN_LAYOUT, loadColumnLayout, saveColumnLayout } from "../services/layoutStorage";
+
+export const DEFAULT_COLUMN_WIDTH = 240;
+export const MIN_COLUMN_WIDTH = 80;
+
+function orderColumns(columns: string[], order: string[]): string[] {
+  const known = order.filter((column) => columns.includes(column));
+  return [...known, ...columns.filter((column) => !order.includes(column))];
+}
+
+// columns in der Standardreihenfolge aus getEntityColumns
+export function useColumnLayout(layoutKey: string, columns: string[]) {
+  const [layout, setLayout] = useState<ColumnLayout>(() => loadColumnLayout(layoutKey));
+  // Speichern außerhalb der Updater-Funktion, die in StrictMode doppelt läuft; der Ref hält auch bei mehreren Änderungen pro Render den aktuellen Stand
+  const layoutRef = useRef(layout);
+
+  const update = (change: (prev: ColumnLayout) => ColumnLayout) => {
+    const next = change(layoutRef.current);
+    layoutRef.current = next;
+    setLayout(next);
+    saveColumnLayout(layoutKey, next);
+  };
+
+  const orderedColumns = useMemo(() => orderColumns(columns, layout.order), [columns, layout.order]);
+
+  const { pinnedColumns, scrollColumns } = useMemo(() => {
+    const visible = orderedColumns.filter((column) => !layout.hidden.includes(column));
+    return {
+      pinnedColumns: visible.filter((column) => layout.pinned.includes(column)),
+      scrollColumns: visible.filter((column) => !layout.pinned.includes(column)),
+    };
+  }, [orderedColumns, layout.hidden, layout.pinned]);
+
+  const toggleHidden = (column: string) => {
+    update((prev) => ({
+      ...prev,
+      hidden: prev.hidden.includes(column) ? prev.hidden.filter((c) => c !== column) : [...prev.hidden, column],
+    }));
+  };
+
+  const togglePinned = (column: string) => {
+    update((prev) => ({
+      ...prev,
+      pinned: prev.pinned.includes(column) ? prev.pinned.filter((c) => c !== column) : [...prev.pinned, column],
+    }));
+  };
+
+  const moveColumn = (column: string, target: string) => {
+    if (column === target) return;
+    update((prev) => {
+      const order = orderColumns(columns, prev.order).filter((c) => c !== column);
+      order.splice(order.indexOf(target) + (orderedColumns.indexOf(column) < orderedColumns.indexOf(target) ? 1 : 0), 0, column);
+      return { ...prev, order };
+    });
+  };
+
+  const setWidth = (column: string, width: number) => {
+    update((prev) => ({ ...prev, widths: { ...prev.widths, [column]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } }));
+  };
+
+  const showAll = () => update((prev) => ({ ...prev, hidden: [] }));
+
+  const hideAll = () => update((prev) => ({ ...prev, hidden: [...columns] }));
+
+  const reset = () => update(() => EMPTY_COLUMN_LAYOUT);
+
+  const getWidth = (column: string) => layout.widths[column] ?? DEFAULT_COLUMN_WIDTH;
+
+  return {
+    layout,
+    orderedColumns,
+    pinnedColumns,
+    scrollColumns,
+    getWidth,
+    toggleHidden,
+    togglePinned,
+    moveColumn,
+    setWidth,
+    showAll,
+    hideAll,
+    reset,
+  };
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from "react";
+import type { ConnectionProfile } from "../types";
+import {
+  createProfileId,
+  createVault,
+  hasVault,
+  loadProfiles,
+  saveProfiles,
+  saveVault,
+  unlockVault,
+  wipeVault,
+  type UnlockedVault,
+} from "../services/profileStorage";
+
+export type ProfileFields = Omit<ConnectionProfile, "id">;
+
+export type VaultStatus = "disabled" | "locked" | "unlocked";
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "scroll", "touchstart"];
+
+export function useConnectionProfiles() {
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => (hasVault() ? "locked" : "disabled"));
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(() => (hasVault() ? [] : loadProfiles()));
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const vaultRef = useRef<UnlockedVault | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Aktueller Stand für Änderungen außerhalb des Render-Zyklus; Updater-Funktionen laufen in StrictMode doppelt
+  const profilesRef = useRef(profiles);
+
+  const replaceProfiles = (next: ConnectionProfile[]) => {
+    profilesRef.current = next;
+    setProfiles(next);
+  };
+
+  const persist = (next: ConnectionProfile[]) => {
+    const vault = vaultRef.current;
+    if (!vault) {
+      saveProfiles(next);
+      return;
+    }
+    // Verschlüsselte Schreibvorgänge nacheinander ausführen, damit kein älterer Stand gewinnt
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveVault(vault, next))
+      .then(() => setSaveError(null))
+      .catch((err) => setSaveError(err instanceof Error ? err.message : "Unbekannter Fehler"));
+  };
+
+  const update = (change: (prev: ConnectionProfile[]) => ConnectionProfile[]) => {
+    if (vaultStatus === "locked") return;
+    const next = change(profilesRef.current);
+    if (next === profilesRef.current) return;
+    replaceProfiles(next);
+    persist(next);
+  };
+
+  const addProfile = (fields: ProfileFields): ConnectionProfile => {
+    const profile = { ...fields, id: createProfileId() };
+    update((prev) => [...prev, profile]);
+    return profile;
+  };
+
+  const updateProfile = (id: string, fields: Partial<ProfileFields>) => {
+    update((prev) => prev.map((p) => (p.id === id ? { ...p, ...fields } : p)));
+  };
+
+  const duplicateProfile = (id: string) => {
+    update((prev) => {
+      const source = prev.find((p) => p.id === id);
+      if (!source) return prev;
+      return [...prev, { ...source, id: createProfileId(), name: `${source.name} (Kopie)`, lastUsed: undefined }];
+    });
+  };
+
+  const deleteProfile = (id: string) => {
+    update((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const markUsed = (id: string) => {
+    update((prev) => prev.map((p) => (p.id === id ? { ...p, lastUsed: new Date().toISOString() } : p)));
+  };
+
+  const enableVault = async (passphrase: string) => {
+    vaultRef.current = await createVault(passphrase, profilesRef.current);
+    setAutoLockMinutes(vaultRef.current.autoLockMinutes);
+    setVaultStatus("unlocked");
+  };
+
+  const unlock = async (passphrase: string) => {
+    const result = await unlockVault(passphrase);
+    vaultRef.current = result.vault;
+    replaceProfiles(result.profiles);
+    setAutoLockMinutes(result.vault.autoLockMinutes);
+    setVaultStatus("unlocked");
+  };
+
+  const lock = () => {
+    if (!vaultRef.current) return;
+    vaultRef.current = null;
+    profilesRef.current = [];
+    setProfiles([]);
+    setSaveError(null);
+    setVaultStatus("locked");
+  };
+
+  const changePassphrase = async (current: string, next: string) => {
+    // Wirft VaultError, wenn die aktuelle Passphrase nicht stimmt
+    await unlockVault(current);
+    await saveQueueRef.current;
+    vaultRef.current = await createVault(next, profilesRef.current);
+  };
+
+  const changeAutoLock = (minutes: number) => {
+    const vault = vaultRef.current;
+    if (!vault) return;
+    vaultRef.current = { ...vault, autoLockMinutes: minutes };
+    setAutoLockMinutes(minutes);
+    persist(profilesRef.current);
+  };
+
+  const wipe = () => {
+    vaultRef.current = null;
+    wipeVault();
+    replaceProfiles([]);
+    setSaveError(null);
+    setVaultStatus("disabled");
+  };
+
+  useEffect(() => {
+    if (vaultStatus !== "unlocked" || !autoLockMinutes) return;
+
+    let timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [vaultStatus, autoLockMinutes]);
+
+  return {
+    profiles,
+    addProfile,
+    updateProfile,
+    duplicateProfile,
+    deleteProfile,
+    markUsed,
+    vault: {
+      status: vaultStatus,
+      autoLockMinutes,
+      saveError,
+      enable: enableVault,
+      unlock,
+      lock,
+      changePassphrase,
+      changeAutoLock,
+      wipe,
+    },
+  };
+}
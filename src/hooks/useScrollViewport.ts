@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+
+export interface ScrollViewport {
+  scrollTop: number;
+  scrollLeft: number;
+  width: number;
+  height: number;
+}
+
+export function useScrollViewport<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [viewport, setViewport] = useState<ScrollViewport>({ scrollTop: 0, scrollLeft: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        setViewport({
+          scrollTop: element.scrollTop,
+          scrollLeft: element.scrollLeft,
+          width: element.clientWidth,
+          height: element.clientHeight,
+        });
+      });
+    };
+
+    // ResizeObserver meldet die Startgröße direkt nach observe()
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    element.addEventListener("scroll", update, { passive: true });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      element.removeEventListener("scroll", update);
+    };
+  }, [element]);
+
+  // Scrollt vertikal nur so weit, dass der Bereich [top, top + height] sichtbar ist
+  const revealRange = (top: number, height: number) => {
+    if (!element) return;
+    if (top < element.scrollTop) element.scrollTo({ top });
+    else if (top + height > element.scrollTop + element.clientHeight) element.scrollTo({ top: top + height - element.clientHeight });
+  };
+
+  return { ref: setElement, viewport, revealRange };
+}
@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  BatchOperationError,
+  createTable,
+  createTableEntity,
+  deleteTable,
+  deleteTableEntity,
+  EntityConflictError,
+  fetchEntityPage,
+  fetchExistingKeys,
+  fetchTableEntities,
+  fetchTableEntity,
+  listPartitions,
+  listTables,
+  submitEntityBatch,
+  updateTableEntity,
+  upsertTableEntity,
+  type WritableEntity,
+} from "./azureTableService";
+import { checkEmulatorHealth, getLocalEmulatorEndpoint } from "./emulator";
+import { getEntityKey, getPropertyType } from "../utils/entityUtils";
+
+// Integrationstests gegen einen lokal laufenden Azurite (npx azurite-table); ohne Emulator werden sie übersprungen
+const DEVELOPMENT_CONNECTION_STRING = "UseDevelopmentStorage=true";
+
+async function isEmulatorRunning(): Promise<boolean> {
+  try {
+    await checkEmulatorHealth(getLocalEmulatorEndpoint(DEVELOPMENT_CONNECTION_STRING)!);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const emulatorAvailable = await isEmulatorRunning();
+
+describe.skipIf(!emulatorAvailable)("azureTableService gegen Azurite", () => {
+  const tableName = `itest${Date.now()}`;
+  // Unter Node signiert das SDK selbst mit dem Kontoschlüssel; den SAS-Umweg braucht nur der Browser
+  const connectionString = DEVELOPMENT_CONNECTION_STRING;
+
+  const createEntities = (partitionKey: string, count: number): WritableEntity[] =>
+    Array.from({ length: count }, (_, i) => ({ partitionKey, rowKey: String(i).padStart(3, "0"), Index: i }));
+
+  beforeAll(() => createTable(connectionString, tableName));
+
+  afterAll(() => deleteTable(connectionString, tableName));
+
+  describe("Tabellen", () => {
+    it("listet die angelegte Tabelle", async () => {
+      expect(await listTables(connectionString)).toContain(tableName);
+    });
+
+    it("meldet eine bereits vorhandene Tabelle", async () => {
+      await expect(createTable(connectionString, tableName)).rejects.toThrow("existiert bereits");
+    });
+  });
+
+  describe("CRUD", () => {
+    it("legt an, liest mit EDM-Typen und löscht", async () => {
+      const created = await createTableEntity(connectionString, tableName, {
+        partitionKey: "crud",
+        rowKey: "1",
+        Name: "Erste",
+        Big: { value: "9007199254740993", type: "Int64" },
+        Id: { value: "6f9619ff-8b86-d011-b42d-00c04fc964ff", type: "Guid" },
+        Created: new Date("2024-05-01T12:00:00.000Z"),
+      });
+      expect(created.etag).toBeTruthy();
+      expect(created.Big).toBe("9007199254740993");
+      expect(getPropertyType(created, "Big")).toBe("Int64");
+      expect(getPropertyType(created, "Id")).toBe("Guid");
+      expect(created.Created).toBe("2024-05-01T12:00:00.000Z");
+
+      await deleteTableEntity(connectionString, tableName, "crud", "1", created.etag);
+      await expect(fetchTableEntity(connectionString, tableName, "crud", "1")).rejects.toThrow();
+    });
+
+    it("meldet doppelte Schlüssel als Konflikt", async () => {
+      await createTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "2" });
+      await expect(createTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "2" }))
+        .rejects.toBeInstanceOf(EntityConflictError);
+    });
+
+    it("aktualisiert mit ETag und lehnt veraltete ETags ab", async () => {
+      const created = await createTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "3", Name: "alt" });
+      const updated = await updateTableEntity(
+        connectionString,
+        tableName,
+        { partitionKey: "crud", rowKey: "3", Extra: 1 },
+        "Merge",
+        created.etag!
+      );
+      expect(updated.Name).toBe("alt");
+      expect(updated.Extra).toBe(1);
+
+      await expect(
+        updateTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "3" }, "Replace", created.etag!)
+      ).rejects.toBeInstanceOf(EntityConflictError);
+    });
+
+    it("ersetzt per Upsert", async () => {
+      await upsertTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "4", A: 1, B: 2 }, "Merge");
+      const replaced = await upsertTableEntity(connectionString, tableName, { partitionKey: "crud", rowKey: "4", A: 3 }, "Replace");
+      expect(replaced.A).toBe(3);
+      expect(replaced.B).toBeUndefined();
+    });
+  });
+
+  describe("Paging", () => {
+    beforeAll(async () => {
+      await submitEntityBatch(connectionString, tableName, createEntities("paging", 25), "create");
+    });
+
+    it("liefert Seiten mit Continuation Token bis zum Ende", async () => {
+      const query = { filter: "PartitionKey eq 'paging'" };
+      const first = await fetchEntityPage(connectionString, tableName, { query, pageSize: 10 });
+      expect(first.entities).toHaveLength(10);
+      expect(first.continuationToken).toBeTruthy();
+
+      const rowKeys = first.entities.map((entity) => entity.rowKey);
+      let token = first.continuationToken;
+      while (token) {
+        const page = await fetchEntityPage(connectionString, tableName, { query, pageSize: 10, continuationToken: token });
+        rowKeys.push(...page.entities.map((entity) => entity.rowKey));
+        token = page.continuationToken;
+      }
+      expect(rowKeys).toEqual(createEntities("paging", 25).map((entity) => entity.rowKey));
+    });
+
+    it("lädt alle Seiten einer Abfrage", async () => {
+      const entities = await fetchTableEntities(connectionString, tableName, { filter: "PartitionKey eq 'paging' and Index ge 20" });
+      expect(entities.map((entity) => entity.Index)).toEqual([20, 21, 22, 23, 24]);
+    });
+
+    it("zählt Entitäten pro Partition", async () => {
+      const partitions = await listPartitions(connectionString, tableName, () => {});
+      expect(partitions).toContainEqual({ partitionKey: "paging", count: 25 });
+    });
+  });
+
+  describe("Batches", () => {
+    it("schreibt eine Partition in einer Transaktion", async () => {
+      await submitEntityBatch(connectionString, tableName, createEntities("batch", 100), "create");
+      const entities = await fetchTableEntities(connectionString, tableName, { filter: "PartitionKey eq 'batch'" });
+      expect(entities).toHaveLength(100);
+    });
+
+    it("meldet den Index der fehlgeschlagenen Operation als Konflikt", async () => {
+      const entities = [{ partitionKey: "batch", rowKey: "new" }, { partitionKey: "batch", rowKey: "001" }];
+      const error = await submitEntityBatch(connectionString, tableName, entities, "create").catch((err) => err);
+      expect(error).toBeInstanceOf(BatchOperationError);
+      expect(error.failedIndex).toBe(1);
+      expect(error.isConflict).toBe(true);
+      // Transaktionen sind atomar: auch die erste Operation wurde nicht geschrieben
+      expect(await fetchExistingKeys(connectionString, tableName, [entities[0]])).toEqual(new Set());
+    });
+
+    it("überschreibt vorhandene Entitäten per Upsert", async () => {
+      await submitEntityBatch(connectionString, tableName, [{ partitionKey: "batch", rowKey: "001", Index: -1 }], "merge");
+      const entity = await fetchTableEntity(connectionString, tableName, "batch", "001");
+      expect(entity.Index).toBe(-1);
+    });
+
+    it("findet vorhandene Schlüssel", async () => {
+      const keys = [{ partitionKey: "batch", rowKey: "002" }, { partitionKey: "batch", rowKey: "fehlt" }];
+      expect(await fetchExistingKeys(connectionString, tableName, keys)).toEqual(new Set([getEntityKey(keys[0])]));
+    });
+  });
+});
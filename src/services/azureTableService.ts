@@ -1,23 +1,177 @@
-import { TableClient, TableServiceClient } from "@azure/data-tables";
-import type { TableEntity } from "../types";
+import { RestError, TableClient, TableServiceClient, type TableEntityQueryOptions, type TransactionAction } from "@azure/data-tables";
+import {
+  PROPERTY_TYPES,
+  type EdmType,
+  type EntityPage,
+  type EntityQuery,
+  type EntityWriteMode,
+  type ImportWriteMode,
+  type TableEntity,
+  type TableInfo,
+} from "../types";
+import { fromTypedValue, getEntityColumns, getEntityKey, SYSTEM_KEYS } from "../utils/entityUtils";
+import { buildRowKeysFilter } from "../utils/odataUtils";
+
+export type WritableEntity = Record<string, unknown> & { partitionKey: string; rowKey: string };
+
+export interface PartitionSummary {
+  partitionKey: string;
+  count: number;
+}
+
+export interface FetchPageOptions {
+  query?: EntityQuery;
+  pageSize?: number;
+  continuationToken?: string;
+  abortSignal?: AbortSignal;
+}
+
+export class EntityConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntityConflictError";
+  }
+}
+
+export class BatchOperationError extends Error {
+  failedIndex?: number;
+  retryable: boolean;
+  // Die fehlgeschlagene Operation wollte eine bereits vorhandene Entität anlegen
+  isConflict: boolean;
+
+  constructor(message: string, failedIndex: number | undefined, retryable: boolean, isConflict = false) {
+    super(message);
+    this.name = "BatchOperationError";
+    this.failedIndex = failedIndex;
+    this.retryable = retryable;
+    this.isConflict = isConflict;
+  }
+}
+
+// Eine Transaktion darf höchstens 100 Operationen auf derselben Partition enthalten
+export const MAX_BATCH_SIZE = 100;
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 503];
+
+// Die Tabelleninfo zählt höchstens so viele Entitäten, um große Tabellen nicht komplett zu lesen
+const TABLE_INFO_SCAN_LIMIT = 10000;
+const TABLE_INFO_SAMPLE_SIZE = 100;
+
+// Schlüssel pro Abfrage beim Prüfen vorhandener Entitäten; hält die URL unter der Längenbegrenzung
+const KEY_LOOKUP_CHUNK_SIZE = 20;
+
+// Mit fullmetadata liefert der Service für jede Eigenschaft den EDM-Typ mit.
+// $format wird vom SDK durchgereicht, ist aber nicht Teil des öffentlichen Typs.
+function toQueryOptions(query?: EntityQuery): TableEntityQueryOptions {
+  return {
+    filter: query?.filter,
+    select: query?.select,
+    format: "application/json;odata=fullmetadata",
+  } as TableEntityQueryOptions;
+}
+
+function toTableEntity(entity: Record<string, unknown>): TableEntity {
+  const { partitionKey, rowKey, etag, ...rest } = entity;
+  const result: TableEntity = {
+    partitionKey: partitionKey as string,
+    rowKey: rowKey as string,
+    etag: etag as string | undefined,
+  };
+  const types: Record<string, EdmType> = {};
+
+  for (const [key, raw] of Object.entries(rest)) {
+    // Metadaten wie odata.id oder odata.editLink sind keine Eigenschaften
+    if (key.startsWith("odata.")) continue;
+    const { value, type } = fromTypedValue(raw);
+    result[key] = value;
+    types[key] = type;
+  }
+
+  result[PROPERTY_TYPES] = types;
+  return result;
+}
+
+function toConflictError(error: unknown): unknown {
+  if (error instanceof RestError && error.statusCode === 412) {
+    return new EntityConflictError(
+      "Die Entität wurde seit dem Laden von einer anderen Stelle geändert. Bitte neu laden oder überschreiben."
+    );
+  }
+  if (error instanceof RestError && error.statusCode === 409) {
+    return new EntityConflictError("Eine Entität mit diesem PartitionKey und RowKey existiert bereits.");
+  }
+  return error;
+}
+
+async function getTableEntity(
+  client: TableClient,
+  partitionKey: string,
+  rowKey: string,
+  abortSignal?: AbortSignal
+): Promise<TableEntity> {
+  const entity = await client.getEntity(partitionKey, rowKey, {
+    queryOptions: toQueryOptions(),
+    disableTypeConversion: true,
+    abortSignal,
+  });
+  return toTableEntity(entity);
+}
+
+export async function fetchTableEntity(
+  connectionString: string,
+  tableName: string,
+  partitionKey: string,
+  rowKey: string,
+  abortSignal?: AbortSignal
+): Promise<TableEntity> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  return getTableEntity(client, partitionKey, rowKey, abortSignal);
+}
+
+export async function fetchEntityPage(
+  connectionString: string,
+  tableName: string,
+  options: FetchPageOptions = {}
+): Promise<EntityPage> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  const { query, pageSize, continuationToken, abortSignal } = options;
+
+  const pages = client
+    .listEntities({
+      queryOptions: toQueryOptions(query),
+      disableTypeConversion: true,
+      abortSignal,
+    })
+    .byPage({ maxPageSize: pageSize, continuationToken });
+
+  const { value: page, done } = await pages.next();
+  if (done || !page) {
+    return { entities: [] };
+  }
+
+  return {
+    entities: page.map((entity) => toTableEntity(entity)),
+    continuationToken: page.continuationToken,
+  };
+}
 
 export async function fetchTableEntities(
   connectionString: string,
-  tableName: string
+  tableName: string,
+  query?: EntityQuery,
+  abortSignal?: AbortSignal
 ): Promise<TableEntity[]> {
   const client = TableClient.fromConnectionString(connectionString, tableName);
   
   const entities: TableEntity[] = [];
-  const iterator = client.listEntities();
+  const iterator = client.listEntities({
+    queryOptions: toQueryOptions(query),
+    disableTypeConversion: true,
+    abortSignal,
+  });
   
   for await (const entity of iterator) {
-    const { partitionKey, rowKey, timestamp, ...rest } = entity as Record<string, unknown>;
-    entities.push({
-      partitionKey: partitionKey as string,
-      rowKey: rowKey as string,
-      timestamp: timestamp instanceof Date ? timestamp.toISOString() : undefined,
-      ...rest,
-    });
+    entities.push(toTableEntity(entity));
   }
   
   return entities;
@@ -33,3 +187,185 @@ export async function listTables(connectionString: string): Promise<string[]> {
   }
   return tables;
 }
+
+export async function createTable(connectionString: string, tableName: string): Promise<void> {
+  const serviceClient = TableServiceClient.fromConnectionString(connectionString);
+  let status: number | undefined;
+  // Das SDK ignoriert "TableAlreadyExists", daher wird der Statuscode selbst ausgewertet
+  await serviceClient.createTable(tableName, { onResponse: (response) => (status = response.status) });
+  if (status === 409) {
+    throw new Error(`Die Tabelle "${tableName}" existiert bereits.`);
+  }
+}
+
+export async function deleteTable(connectionString: string, tableName: string): Promise<void> {
+  const serviceClient = TableServiceClient.fromConnectionString(connectionString);
+  await serviceClient.deleteTable(tableName);
+}
+
+// Zählt Entitäten pro Partition; für die Zählung genügt der PartitionKey, das hält die Antworten klein.
+// onPage wird nach jeder Seite aufgerufen und kann den Durchlauf mit false abbrechen.
+async function scanPartitionCounts(
+  connectionString: string,
+  tableName: string,
+  onPage: (counts: Map<string, number>, entityCount: number) => boolean | void,
+  abortSignal?: AbortSignal
+): Promise<{ counts: Map<string, number>; entityCount: number; isComplete: boolean }> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  const pages = client
+    .listEntities({ queryOptions: { select: ["PartitionKey"] }, abortSignal })
+    .byPage({ maxPageSize: 1000 });
+  const counts = new Map<string, number>();
+  let entityCount = 0;
+
+  for await (const page of pages) {
+    for (const entity of page) {
+      const partitionKey = entity.partitionKey as string;
+      counts.set(partitionKey, (counts.get(partitionKey) ?? 0) + 1);
+    }
+    entityCount += page.length;
+    if (onPage(counts, entityCount) === false && page.continuationToken) {
+      return { counts, entityCount, isComplete: false };
+    }
+  }
+  return { counts, entityCount, isComplete: true };
+}
+
+export async function getTableInfo(connectionString: string, tableName: string, abortSignal?: AbortSignal): Promise<TableInfo> {
+  const sample = await fetchEntityPage(connectionString, tableName, { pageSize: TABLE_INFO_SAMPLE_SIZE, abortSignal });
+  const propertyNames = getEntityColumns(sample.entities).filter((column) => !SYSTEM_KEYS.includes(column));
+
+  const { counts, entityCount, isComplete } = await scanPartitionCounts(
+    connectionString,
+    tableName,
+    (_, scanned) => scanned < TABLE_INFO_SCAN_LIMIT,
+    abortSignal
+  );
+  return { entityCount, partitionCount: counts.size, isComplete, propertyNames, sampleSize: sample.entities.length };
+}
+
+// Alle Partitionen in der Reihenfolge des Service (aufsteigend nach PartitionKey); Zwischenstände nach jeder Seite
+export async function listPartitions(
+  connectionString: string,
+  tableName: string,
+  onProgress: (partitions: PartitionSummary[]) => void,
+  abortSignal?: AbortSignal
+): Promise<PartitionSummary[]> {
+  const toSummaries = (counts: Map<string, number>) =>
+    [...counts].map(([partitionKey, count]) => ({ partitionKey, count }));
+  const { counts } = await scanPartitionCounts(
+    connectionString,
+    tableName,
+    (current) => onProgress(toSummaries(current)),
+    abortSignal
+  );
+  return toSummaries(counts);
+}
+
+// Welche der Schlüssel in der Tabelle bereits belegt sind; gelesen wird nur der RowKey
+export async function fetchExistingKeys(
+  connectionString: string,
+  tableName: string,
+  keys: { partitionKey: string; rowKey: string }[],
+  abortSignal?: AbortSignal
+): Promise<Set<string>> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  const rowKeysByPartition = new Map<string, string[]>();
+  for (const { partitionKey, rowKey } of keys) {
+    rowKeysByPartition.set(partitionKey, [...(rowKeysByPartition.get(partitionKey) ?? []), rowKey]);
+  }
+
+  const existing = new Set<string>();
+  for (const [partitionKey, rowKeys] of rowKeysByPartition) {
+    for (let i = 0; i < rowKeys.length; i += KEY_LOOKUP_CHUNK_SIZE) {
+      const filter = buildRowKeysFilter(partitionKey, rowKeys.slice(i, i + KEY_LOOKUP_CHUNK_SIZE));
+      for await (const entity of client.listEntities({ queryOptions: { filter, select: ["RowKey"] }, abortSignal })) {
+        existing.add(getEntityKey({ partitionKey, rowKey: entity.rowKey as string }));
+      }
+    }
+  }
+  return existing;
+}
+
+export async function createTableEntity(
+  connectionString: string,
+  tableName: string,
+  entity: WritableEntity
+): Promise<TableEntity> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  try {
+    await client.createEntity(entity);
+  } catch (error) {
+    throw toConflictError(error);
+  }
+  return getTableEntity(client, entity.partitionKey, entity.rowKey);
+}
+
+export async function updateTableEntity(
+  connectionString: string,
+  tableName: string,
+  entity: WritableEntity,
+  mode: EntityWriteMode,
+  etag: string
+): Promise<TableEntity> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  try {
+    await client.updateEntity(entity, mode, { etag });
+  } catch (error) {
+    throw toConflictError(error);
+  }
+  return getTableEntity(client, entity.partitionKey, entity.rowKey);
+}
+
+export async function upsertTableEntity(
+  connectionString: string,
+  tableName: string,
+  entity: WritableEntity,
+  mode: EntityWriteMode
+): Promise<TableEntity> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  await client.upsertEntity(entity, mode);
+  return getTableEntity(client, entity.partitionKey, entity.rowKey);
+}
+
+export async function deleteTableEntity(
+  connectionString: string,
+  tableName: string,
+  partitionKey: string,
+  rowKey: string,
+  etag?: string
+): Promise<void> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  try {
+    await client.deleteEntity(partitionKey, rowKey, { etag });
+  } catch (error) {
+    throw toConflictError(error);
+  }
+}
+
+function toBatchError(error: unknown): unknown {
+  if (!(error instanceof RestError)) return error;
+  // Der Service stellt der Meldung den Index der fehlgeschlagenen Operation voran, z. B. "3:The specified entity already exists."
+  const match = /^(\d+):(.*)/s.exec(error.message);
+  const message = (match ? match[2] : error.message).split("\nRequestId:")[0].trim();
+  const retryable = error.statusCode === undefined || RETRYABLE_STATUS_CODES.includes(error.statusCode);
+  return new BatchOperationError(message, match ? Number(match[1]) : undefined, retryable, error.statusCode === 409);
+}
+
+export async function submitEntityBatch(
+  connectionString: string,
+  tableName: string,
+  entities: WritableEntity[],
+  mode: ImportWriteMode,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+  const actions: TransactionAction[] = entities.map((entity) =>
+    mode === "create" ? ["create", entity] : ["upsert", entity, mode === "merge" ? "Merge" : "Replace"]
+  );
+  try {
+    await client.submitTransaction(actions, { abortSignal });
+  } catch (error) {
+    throw toBatchError(error);
+  }
+}
@@ -0,0 +1,110 @@
+import { base64ToBytes, bytesToBase64 } from "../utils/entityUtils";
+import { isLocalEndpoint, parseConnectionString } from "../utils/connectionStringUtils";
+import { buildSasConnectionString } from "../utils/sasUtils";
+import {
+  DEFAULT_EMULATOR_HOST,
+  DEFAULT_EMULATOR_PORT,
+  EMULATOR_ACCOUNT_KEY,
+  EMULATOR_ACCOUNT_NAME,
+  EMULATOR_HEALTH_TIMEOUT_MS,
+} from "../constants/emulator";
+
+export interface EmulatorSettings {
+  host: string;
+  port: number;
+  accountName: string;
+  accountKey: string;
+}
+
+export class EmulatorUnavailableError extends Error {
+  constructor(endpoint: string) {
+    super(`Der Emulator unter ${endpoint} antwortet nicht.`);
+    this.name = "EmulatorUnavailableError";
+  }
+}
+
+export const DEFAULT_EMULATOR_SETTINGS: EmulatorSettings = {
+  host: DEFAULT_EMULATOR_HOST,
+  port: DEFAULT_EMULATOR_PORT,
+  accountName: EMULATOR_ACCOUNT_NAME,
+  accountKey: EMULATOR_ACCOUNT_KEY,
+};
+
+const SAS_VERSION = "2019-02-02";
+const SAS_VALIDITY_DAYS = 365;
+
+export function getEmulatorEndpoint({ host, port, accountName }: EmulatorSettings): string {
+  return `http://${host}:${port}/${accountName}`;
+}
+
+function toSasDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// Das Browser-SDK kann nicht mit Kontoschlüsseln signieren, daher wird ein Account-SAS per WebCrypto erzeugt
+async function createAccountSas(accountName: string, accountKey: string): Promise<string> {
+  const expiry = toSasDate(new Date(Date.now() + SAS_VALIDITY_DAYS * 24 * 60 * 60 * 1000));
+  const permissions = "rwdlacu";
+  const stringToSign = [accountName, permissions, "t", "sco", "", expiry, "", "", SAS_VERSION, ""].join("\n");
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64ToBytes(accountKey) as BufferSource,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(stringToSign));
+
+  const params = new URLSearchParams({
+    sv: SAS_VERSION,
+    ss: "t",
+    srt: "sco",
+    sp: permissions,
+    se: expiry,
+    sig: bytesToBase64(new Uint8Array(signature)),
+  });
+  return params.toString();
+}
+
+// Wird wie ein normaler Schlüssel-Connection-String gespeichert und erst beim Verbinden signiert
+export function buildEmulatorConnectionString(settings: EmulatorSettings): string {
+  return [
+    "DefaultEndpointsProtocol=http",
+    `AccountName=${settings.accountName}`,
+    `AccountKey=${settings.accountKey}`,
+    `TableEndpoint=${getEmulatorEndpoint(settings)}`,
+  ].join(";");
+}
+
+// Liefert den Endpunkt, wenn der Connection String auf einen lokalen Emulator zeigt
+export function getLocalEmulatorEndpoint(connectionString: string): string | undefined {
+  const { kind, settings } = parseConnectionString(connectionString);
+  if (kind === "development") return getEmulatorEndpoint(DEFAULT_EMULATOR_SETTINGS);
+  return settings.TableEndpoint && isLocalEndpoint(settings.TableEndpoint) ? settings.TableEndpoint : undefined;
+}
+
+export async function resolveEmulatorConnectionString(connectionString: string): Promise<string> {
+  const { kind, settings } = parseConnectionString(connectionString);
+  if (kind === "development") {
+    const sas = await createAccountSas(EMULATOR_ACCOUNT_NAME, EMULATOR_ACCOUNT_KEY);
+    return buildSasConnectionString(getEmulatorEndpoint(DEFAULT_EMULATOR_SETTINGS), sas);
+  }
+  if (kind === "account-key" && settings.TableEndpoint && isLocalEndpoint(settings.TableEndpoint)) {
+    const sas = await createAccountSas(settings.AccountName, settings.AccountKey);
+    return buildSasConnectionString(settings.TableEndpoint.replace(/\/$/, ""), sas);
+  }
+  return connectionString;
+}
+
+export async function checkEmulatorHealth(endpoint: string, abortSignal?: AbortSignal): Promise<void> {
+  const timeout = AbortSignal.timeout(EMULATOR_HEALTH_TIMEOUT_MS);
+  const signal = abortSignal ? AbortSignal.any([abortSignal, timeout]) : timeout;
+  try {
+    // no-cors genügt: Es geht nur darum, ob überhaupt ein Server antwortet
+    await fetch(endpoint, { method: "GET", mode: "no-cors", signal });
+  } catch (error) {
+    if (abortSignal?.aborted) throw error;
+    throw new EmulatorUnavailableError(endpoint);
+  }
+}
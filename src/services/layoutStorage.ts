@@ -0,0 +1,28 @@
+import type { ColumnLayout } from "../types";
+import { STORAGE_KEY_COLUMN_LAYOUTS } from "../constants/storage";
+
+export const EMPTY_COLUMN_LAYOUT: ColumnLayout = { order: [], hidden: [], pinned: [], widths: {} };
+
+function readLayouts(): Record<string, ColumnLayout> {
+  const stored = localStorage.getItem(STORAGE_KEY_COLUMN_LAYOUTS);
+  if (!stored) return {};
+  try {
+    const parsed = JSON.parse(stored);
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadColumnLayout(layoutKey: string): ColumnLayout {
+  return { ...EMPTY_COLUMN_LAYOUT, ...readLayouts()[layoutKey] };
+}
+
+export function saveColumnLayout(layoutKey: string, layout: ColumnLayout): void {
+  const layouts = readLayouts();
+  const isEmpty = layout.order.length === 0 && layout.hidden.length === 0
+    && layout.pinned.length === 0 && Object.keys(layout.widths).length === 0;
+  if (isEmpty) delete layouts[layoutKey];
+  else layouts[layoutKey] = layout;
+  localStorage.setItem(STORAGE_KEY_COLUMN_LAYOUTS, JSON.stringify(layouts));
+}
@@ -0,0 +1,96 @@
+import type { ConnectionProfile } from "../types";
+import { STORAGE_KEY_CONNECTION, STORAGE_KEY_PROFILES, STORAGE_KEY_VAULT } from "../constants/storage";
+import { createSalt, decryptJson, deriveVaultKey, encryptJson, type VaultRecord } from "./vault";
+
+export interface UnlockedVault {
+  key: CryptoKey;
+  salt: string;
+  autoLockMinutes: number;
+}
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export function createProfileId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Übernimmt den früher einzeln gespeicherten Connection String als erstes Profil
+function migrateLegacyConnection(): ConnectionProfile[] {
+  const legacy = localStorage.getItem(STORAGE_KEY_CONNECTION);
+  if (!legacy) return [];
+
+  const profiles: ConnectionProfile[] = [{
+    id: createProfileId(),
+    name: "Gespeicherte Verbindung",
+    connectionString: legacy,
+    color: "gray",
+    environment: "",
+  }];
+  saveProfiles(profiles);
+  localStorage.removeItem(STORAGE_KEY_CONNECTION);
+  return profiles;
+}
+
+export function loadProfiles(): ConnectionProfile[] {
+  const stored = localStorage.getItem(STORAGE_KEY_PROFILES);
+  if (!stored) return migrateLegacyConnection();
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: ConnectionProfile[]): void {
+  localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(profiles));
+}
+
+export function readVaultRecord(): VaultRecord | null {
+  const stored = localStorage.getItem(STORAGE_KEY_VAULT);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as VaultRecord;
+  } catch {
+    return null;
+  }
+}
+
+export function hasVault(): boolean {
+  return readVaultRecord() !== null;
+}
+
+export async function saveVault(vault: UnlockedVault, profiles: ConnectionProfile[]): Promise<void> {
+  const { iv, data } = await encryptJson(vault.key, profiles);
+  const record: VaultRecord = { version: 1, salt: vault.salt, iv, data, autoLockMinutes: vault.autoLockMinutes };
+  localStorage.setItem(STORAGE_KEY_VAULT, JSON.stringify(record));
+}
+
+export async function createVault(passphrase: string, profiles: ConnectionProfile[]): Promise<UnlockedVault> {
+  const salt = createSalt();
+  const vault: UnlockedVault = {
+    key: await deriveVaultKey(passphrase, salt),
+    salt,
+    autoLockMinutes: readVaultRecord()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+  };
+  await saveVault(vault, profiles);
+  // Klartext erst entfernen, wenn der verschlüsselte Tresor geschrieben ist
+  localStorage.removeItem(STORAGE_KEY_PROFILES);
+  localStorage.removeItem(STORAGE_KEY_CONNECTION);
+  return vault;
+}
+
+export async function unlockVault(passphrase: string): Promise<{ vault: UnlockedVault; profiles: ConnectionProfile[] }> {
+  const record = readVaultRecord();
+  if (!record) throw new Error("Kein Tresor vorhanden");
+
+  const key = await deriveVaultKey(passphrase, record.salt);
+  const profiles = await decryptJson<ConnectionProfile[]>(key, record.iv, record.data);
+  return { vault: { key, salt: record.salt, autoLockMinutes: record.autoLockMinutes }, profiles };
+}
+
+export function wipeVault(): void {
+  localStorage.removeItem(STORAGE_KEY_VAULT);
+  localStorage.removeItem(STORAGE_KEY_PROFILES);
+  localStorage.removeItem(STORAGE_KEY_CONNECTION);
+}
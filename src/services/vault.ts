@@ -0,0 +1,63 @@
+import { base64ToBytes, bytesToBase64 } from "../utils/entityUtils";
+
+export interface VaultRecord {
+  version: 1;
+  salt: string;
+  iv: string;
+  data: string;
+  autoLockMinutes: number;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+const PBKDF2_ITERATIONS = 310000;
+
+export function createSalt(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function deriveVaultKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: base64ToBytes(salt) as BufferSource, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<{ iv: string; data: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(encrypted)) };
+}
+
+export async function decryptJson<T>(key: CryptoKey, iv: string, data: string): Promise<T> {
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(iv) as BufferSource },
+      key,
+      base64ToBytes(data) as BufferSource
+    );
+    return JSON.parse(new TextDecoder().decode(decrypted)) as T;
+  } catch {
+    // AES-GCM schlägt bei falschem Schlüssel mit einem generischen OperationError fehl
+    throw new VaultError("Falsche Passphrase");
+  }
+}
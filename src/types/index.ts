@@ -1,14 +1,136 @@
+export type EdmType = "String" | "Int32" | "Int64" | "Double" | "Boolean" | "DateTime" | "Guid" | "Binary";
+
+// Symbol-Schlüssel tauchen weder in Object.keys noch in JSON.stringify auf
+export const PROPERTY_TYPES = Symbol("propertyTypes");
+
 export interface TableEntity {
   partitionKey: string;
   rowKey: string;
   timestamp?: string;
+  etag?: string;
+  [PROPERTY_TYPES]?: Record<string, EdmType>;
   [key: string]: unknown;
 }
 
+export interface EntityProperty {
+  id: string;
+  name: string;
+  type: EdmType;
+  value: string;
+}
+
+export type EntityWriteMode = "Merge" | "Replace";
+
+// create schlägt bei vorhandenen Entitäten fehl, merge/replace überschreiben per Upsert
+export type ImportWriteMode = "create" | "merge" | "replace";
+
+// Umgang mit Entitäten, deren Schlüssel im Ziel bereits existiert
+export type CopyConflictStrategy = "skip" | "merge" | "replace";
+
+export type QueryOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+
+export type QueryValueType = "string" | "number" | "int64" | "boolean" | "datetime" | "guid";
+
+export type QueryLogic = "and" | "or";
+
+export interface QueryCondition {
+  id: string;
+  property: string;
+  operator: QueryOperator;
+  valueType: QueryValueType;
+  value: string;
+}
+
+export interface QueryGroup {
+  id: string;
+  logic: QueryLogic;
+  conditions: QueryCondition[];
+}
+
+export interface QueryBuilderState {
+  mode: "builder" | "raw";
+  logic: QueryLogic;
+  groups: QueryGroup[];
+  rawFilter: string;
+  select: string;
+}
+
+export interface EntityQuery {
+  filter?: string;
+  select?: string[];
+  builder?: QueryBuilderState;
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
+
+// Position leerer Werte unabhängig von der Sortierrichtung
+export type NullPlacement = "first" | "last";
+
+// Filter auf bereits geladene Entitäten, unabhängig von der Server-Abfrage
+export type ColumnFilterOperator = "contains" | "equals" | "regex" | "range" | "type" | "empty" | "notEmpty";
+
+export interface ColumnFilter {
+  operator: ColumnFilterOperator;
+  value: string;
+  // Obergrenze bei "range"; value ist dann die Untergrenze, leere Grenzen sind offen
+  valueTo: string;
+}
+
+// Spaltenansicht einer Tabelle, gespeichert pro Konto und Tabelle
+export interface ColumnLayout {
+  // Reihenfolge der bekannten Spalten; neue Spalten werden hinten angehängt
+  order: string[];
+  hidden: string[];
+  pinned: string[];
+  widths: Record<string, number>;
+}
+
+export interface EntityPage {
+  entities: TableEntity[];
+  continuationToken?: string;
+}
+
+// Kennzahlen einer Tabelle; bei isComplete false wurde die Zählung nach einem Limit abgebrochen
+export interface TableInfo {
+  entityCount: number;
+  partitionCount: number;
+  isComplete: boolean;
+  // Eigenschaftsnamen aus den ersten sampleSize Entitäten
+  propertyNames: string[];
+  sampleSize: number;
+}
+
+// Auswählbare Verbindung für Tabellenvergleich und Kopieren: die aktuelle und alle gespeicherten Profile
+export interface ConnectionOption {
+  id: string;
+  label: string;
+  connectionString: string;
+  // Bei Tabellen-SAS ist nur diese eine Tabelle erreichbar
+  tableName?: string;
+}
+
+export type ProfileColor = "gray" | "blue" | "green" | "yellow" | "red" | "purple";
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  connectionString: string;
+  color: ProfileColor;
+  environment: string;
+  // Gesetzt bei Tabellen-SAS: die Tabelle wird direkt geöffnet, ohne listTables
+  tableName?: string;
+  lastUsed?: string;
+}
+
 export type AppState =
   | { status: "disconnected" }
   | { status: "loading-tables" }
   | { status: "tables-loaded"; connectionString: string; tables: string[] }
-  | { status: "loading-data"; connectionString: string; tables: string[]; selectedTable: string }
-  | { status: "connected"; connectionString: string; tables: string[]; tableName: string; entities: TableEntity[] }
-  | { status: "error"; message: string; connectionString?: string };
+  | { status: "loading-data"; connectionString: string; tables: string[]; selectedTable: string; query?: EntityQuery }
+  | { status: "connected"; connectionString: string; tables: string[]; tableName: string; entities: TableEntity[]; query?: EntityQuery; continuationToken?: string; isLoadingMore: boolean }
+  | { status: "error"; message: string; hint?: string; connectionString?: string };
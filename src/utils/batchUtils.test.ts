@@ -0,0 +1,45 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from "vitest";
+import { BatchOperationError, type WritableEntity } from "../services/azureTableService";
+import { writeBatch } from "./batchUtils";
+
+const rows = ["a", "b", "c"].map((rowKey) => ({ entity: { partitionKey: "p", rowKey } as WritableEntity }));
+
+describe("writeBatch", () => {
+  it("sortiert fehlgeschlagene Zeilen aus und sendet den Rest erneut", async () => {
+    const submit = vi.fn()
+      .mockRejectedValueOnce(new BatchOperationError("Konflikt", 1, false, true))
+      .mockResolvedValueOnce(undefined);
+    const result = await writeBatch(rows, submit, new AbortController().signal, true);
+    expect(result.skipped).toEqual([rows[1]]);
+    expect(result.written).toEqual([rows[0], rows[2]]);
+    expect(submit).toHaveBeenCalledTimes(2);
+  });
+
+  it("bricht ab, wenn das Signal schon vor der Wartezeit abgebrochen wurde", async () => {
+    const controller = new AbortController();
+    const submit = vi.fn(async () => {
+      controller.abort();
+      throw new BatchOperationError("Zeitüberschreitung", undefined, true);
+    });
+    await expect(writeBatch(rows, submit, controller.signal)).rejects.toMatchObject({ name: "AbortError" });
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+
+  it("entfernt den Abort-Listener nach der Wartezeit", async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+      const submit = vi.fn()
+        .mockRejectedValueOnce(new BatchOperationError("Zeitüberschreitung", undefined, true))
+        .mockResolvedValueOnce(undefined);
+      const pending = writeBatch(rows, submit, controller.signal);
+      await vi.runAllTimersAsync();
+      expect((await pending).written).toEqual(rows);
+      expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
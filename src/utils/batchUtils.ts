@@ -0,0 +1,74 @@
+import { BatchOperationError, type WritableEntity } from "../services/azureTableService";
+import { isAbortError } from "./errorUtils";
+
+export interface BatchFailure<T> {
+  row: T;
+  message: string;
+}
+
+export interface BatchResult<T> {
+  written: T[];
+  // Nur mit skipConflicts: bereits vorhandene Entitäten, die nicht geschrieben wurden
+  skipped: T[];
+  failed: BatchFailure<T>[];
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+function wait(ms: number, abortSignal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal.aborted) {
+      reject(new DOMException("Abgebrochen", "AbortError"));
+      return;
+    }
+    const handleAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException("Abgebrochen", "AbortError"));
+    };
+    const timer = window.setTimeout(() => {
+      abortSignal.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    abortSignal.addEventListener("abort", handleAbort, { once: true });
+  });
+}
+
+// Schreibt eine Partition-Transaktion; bei Fehlern einer Zeile wird diese aussortiert und der Rest erneut gesendet
+export async function writeBatch<T extends { entity?: WritableEntity }>(
+  batch: T[],
+  submit: (entities: WritableEntity[], abortSignal: AbortSignal) => Promise<void>,
+  abortSignal: AbortSignal,
+  skipConflicts = false
+): Promise<BatchResult<T>> {
+  const result: BatchResult<T> = { written: [], skipped: [], failed: [] };
+  let pending = batch;
+  let attempt = 1;
+
+  while (pending.length > 0) {
+    try {
+      await submit(pending.map((row) => row.entity!), abortSignal);
+      result.written.push(...pending);
+      return result;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (err instanceof BatchOperationError && err.retryable && attempt < MAX_ATTEMPTS) {
+        await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), abortSignal);
+        attempt++;
+        continue;
+      }
+      const message = err instanceof Error ? err.message : "Unbekannter Fehler";
+      if (err instanceof BatchOperationError && err.failedIndex !== undefined && pending[err.failedIndex]) {
+        const row = pending[err.failedIndex];
+        if (skipConflicts && err.isConflict) result.skipped.push(row);
+        else result.failed.push({ row, message });
+        pending = pending.filter((_, index) => index !== err.failedIndex);
+        attempt = 1;
+        continue;
+      }
+      result.failed.push(...pending.map((row) => ({ row, message })));
+      return result;
+    }
+  }
+  return result;
+}
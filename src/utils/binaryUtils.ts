@@ -0,0 +1,52 @@
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const BASE64_URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+export function isBase64(value: string): boolean {
+  return value.length % 4 === 0 && BASE64_PATTERN.test(value);
+}
+
+export function decodeBase64Url(value: string): string | null {
+  if (!BASE64_URL_PATTERN.test(value)) return null;
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  try {
+    return decodeUtf8(Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")), (c) => c.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+// Liefert null bei ungültigem UTF-8 oder zu vielen Steuerzeichen
+export function decodeUtf8(bytes: Uint8Array): string | null {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+  let controlChars = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) controlChars++;
+  }
+  return controlChars > text.length * 0.05 ? null : text;
+}
+
+export function toHexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const chunk = Array.from(bytes.slice(offset, offset + 16));
+    const hex = chunk.map((b) => b.toString(16).padStart(2, "0")).join(" ");
+    const ascii = chunk.map((b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47, " ")}  ${ascii}`);
+  }
+  return lines.join("\n");
+}
+
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 18 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,192 @@
+import { parseSasToken } from "./sasUtils";
+
+export type ConnectionStringKind = "account-key" | "sas" | "development";
+
+export interface ConnectionStringSegment {
+  key: string;
+  value: string;
+  start: number;
+  end: number;
+  error?: string;
+}
+
+export interface ParsedConnectionString {
+  kind?: ConnectionStringKind;
+  segments: ConnectionStringSegment[];
+  settings: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+}
+
+const KNOWN_KEYS = [
+  "DefaultEndpointsProtocol",
+  "AccountName",
+  "AccountKey",
+  "TableEndpoint",
+  "SharedAccessSignature",
+  "EndpointSuffix",
+  "UseDevelopmentStorage",
+];
+
+// Kommen in kopierten Storage-Connection-Strings vor, sind für Tabellen aber bedeutungslos
+const IGNORED_KEYS = ["BlobEndpoint", "QueueEndpoint", "FileEndpoint"];
+
+const SECRET_KEYS = ["AccountKey", "SharedAccessSignature"];
+
+const LOCAL_HOSTS = ["127.0.0.1", "localhost", "[::1]"];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function findKnownKey(key: string): string | undefined {
+  const lower = key.toLowerCase();
+  return [...KNOWN_KEYS, ...IGNORED_KEYS].find((known) => known.toLowerCase() === lower);
+}
+
+function suggestKey(key: string): string | undefined {
+  const lower = key.toLowerCase();
+  return KNOWN_KEYS.find((known) => editDistance(known.toLowerCase(), lower) <= 2);
+}
+
+function validateUrl(value: string): string | undefined {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return "Der Endpunkt muss mit https:// beginnen";
+  } catch {
+    return "Ungültige URL";
+  }
+  return undefined;
+}
+
+export function isLocalEndpoint(value: string): boolean {
+  try {
+    return LOCAL_HOSTS.includes(new URL(value).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function validateValue(key: string, value: string): string | undefined {
+  if (!value) return `${key} hat keinen Wert`;
+  switch (key) {
+    case "DefaultEndpointsProtocol":
+      return value === "https" || value === "http" ? undefined : "Erlaubt sind nur https oder http";
+    case "AccountKey":
+      return BASE64_PATTERN.test(value) && value.length % 4 === 0 ? undefined : "Der Schlüssel ist kein gültiges Base64";
+    case "TableEndpoint":
+      return validateUrl(value);
+    case "SharedAccessSignature":
+      return parseSasToken(value).errors[0];
+    case "UseDevelopmentStorage":
+      return value.toLowerCase() === "true" ? undefined : "Nur UseDevelopmentStorage=true ist erlaubt";
+    case "EndpointSuffix":
+      return value.includes("://") ? "Das Suffix darf kein Protokoll enthalten (z. B. core.windows.net)" : undefined;
+    default:
+      return undefined;
+  }
+}
+
+export function parseConnectionString(value: string): ParsedConnectionString {
+  const segments: ConnectionStringSegment[] = [];
+  const settings: Record<string, string> = {};
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let offset = 0;
+  for (const part of value.split(";")) {
+    const start = offset + (part.length - part.trimStart().length);
+    const end = offset + part.trimEnd().length;
+    offset += part.length + 1;
+
+    const text = part.trim();
+    if (!text) continue;
+
+    const separator = text.indexOf("=");
+    const rawKey = separator === -1 ? text : text.slice(0, separator).trim();
+    const segmentValue = separator === -1 ? "" : text.slice(separator + 1).trim();
+    const segment: ConnectionStringSegment = { key: rawKey, value: segmentValue, start, end };
+    segments.push(segment);
+
+    if (separator === -1) {
+      segment.error = `"${rawKey}" ist kein Schlüssel=Wert-Paar`;
+      continue;
+    }
+
+    const key = findKnownKey(rawKey);
+    if (!key) {
+      const suggestion = suggestKey(rawKey);
+      segment.error = suggestion
+        ? `Unbekannter Schlüssel "${rawKey}" – meinten Sie ${suggestion}?`
+        : `Unbekannter Schlüssel "${rawKey}"`;
+      continue;
+    }
+
+    segment.key = key;
+    if (IGNORED_KEYS.includes(key)) continue;
+    if (key in settings) {
+      segment.error = `${key} ist mehrfach angegeben`;
+      continue;
+    }
+    segment.error = validateValue(key, segmentValue);
+    settings[key] = segmentValue;
+  }
+
+  for (const segment of segments) {
+    if (segment.error) errors.push(segment.error);
+  }
+
+  let kind: ConnectionStringKind | undefined;
+  if (settings.UseDevelopmentStorage) {
+    kind = "development";
+  } else if (settings.AccountKey) {
+    kind = "account-key";
+    if (!settings.AccountName) errors.push("AccountName fehlt");
+    if (!settings.TableEndpoint && !settings.DefaultEndpointsProtocol) errors.push("DefaultEndpointsProtocol fehlt");
+    // Für lokale Emulatoren signiert die App selbst, siehe services/emulator.ts
+    if (!settings.TableEndpoint || !isLocalEndpoint(settings.TableEndpoint)) {
+      warnings.push("Schlüssel-Connection-Strings werden vom SDK im Browser nicht unterstützt – verwenden Sie einen SAS");
+    }
+  } else if (settings.SharedAccessSignature) {
+    kind = "sas";
+    if (!settings.TableEndpoint) errors.push("TableEndpoint fehlt – bei einem SAS muss der Endpunkt angegeben werden");
+    warnings.push(...parseSasToken(settings.SharedAccessSignature).warnings);
+  } else if (segments.length > 0) {
+    errors.push("Weder AccountKey noch SharedAccessSignature angegeben");
+  }
+
+  return { kind, segments, settings, errors, warnings };
+}
+
+// Kennung des Kontos unabhängig von Schlüssel oder SAS, z. B. für gespeicherte Ansichten
+export function getAccountId(value: string): string {
+  const { settings } = parseConnectionString(value);
+  if (settings.TableEndpoint) return settings.TableEndpoint.replace(/\/+$/, "").toLowerCase();
+  if (settings.UseDevelopmentStorage) return "devstoreaccount1";
+  return `${settings.AccountName ?? ""}.table.${settings.EndpointSuffix ?? "core.windows.net"}`.toLowerCase();
+}
+
+export function maskSecret(value: string): string {
+  if (value.length <= 8) return "••••••••";
+  return `${value.slice(0, 4)}••••••••${value.slice(-4)}`;
+}
+
+export function maskSegmentValue(segment: ConnectionStringSegment): string {
+  if (!SECRET_KEYS.includes(segment.key)) return segment.value;
+  if (segment.key === "SharedAccessSignature") {
+    return segment.value.replace(/(sig=)([^&]+)/i, (_, prefix: string, sig: string) => prefix + maskSecret(sig));
+  }
+  return maskSecret(segment.value);
+}
@@ -0,0 +1,73 @@
+import type { CopyConflictStrategy, ImportWriteMode, TableEntity } from "../types";
+import type { WritableEntity } from "../services/azureTableService";
+import { buildEntity, entityToProperties, getEntityKey } from "./entityUtils";
+
+export type KeyField = "partitionKey" | "rowKey";
+
+export interface KeyRewriteRule {
+  id: string;
+  field: KeyField;
+  // prefix stellt value voran, replace ersetzt alle Vorkommen von search durch value
+  kind: "prefix" | "replace";
+  search: string;
+  value: string;
+}
+
+export interface CopyRow {
+  sourcePartitionKey: string;
+  sourceRowKey: string;
+  entity?: WritableEntity;
+  errors: string[];
+}
+
+export const CONFLICT_STRATEGIES: { value: CopyConflictStrategy; label: string; description: string }[] = [
+  { value: "skip", label: "Überspringen", description: "Vorhandene Entitäten im Ziel bleiben unverändert" },
+  { value: "merge", label: "Zusammenführen", description: "Eigenschaften werden in vorhandene Entitäten übernommen" },
+  { value: "replace", label: "Ersetzen", description: "Vorhandene Entitäten werden vollständig ersetzt" },
+];
+
+let ruleCounter = 0;
+
+export function createKeyRule(field: KeyField = "partitionKey"): KeyRewriteRule {
+  ruleCounter++;
+  return { id: `r-${ruleCounter}`, field, kind: "prefix", search: "", value: "" };
+}
+
+export function validateKeyRule(rule: KeyRewriteRule): string | null {
+  if (rule.kind === "replace" && rule.search === "") return "Suchtext fehlt";
+  if (rule.kind === "prefix" && rule.value === "") return "Präfix fehlt";
+  return null;
+}
+
+// Regeln wirken in ihrer Reihenfolge, jede auf das Ergebnis der vorherigen
+export function rewriteKey(key: string, field: KeyField, rules: KeyRewriteRule[]): string {
+  return rules.reduce((result, rule) => {
+    if (rule.field !== field || validateKeyRule(rule)) return result;
+    return rule.kind === "prefix" ? rule.value + result : result.replaceAll(rule.search, rule.value);
+  }, key);
+}
+
+// "Überspringen" schreibt per Insert, der Service meldet vorhandene Entitäten dann als Konflikt
+export function toWriteMode(strategy: CopyConflictStrategy): ImportWriteMode {
+  return strategy === "skip" ? "create" : strategy;
+}
+
+export function buildCopyRows(entities: TableEntity[], rules: KeyRewriteRule[]): CopyRow[] {
+  const seenKeys = new Map<string, string>();
+
+  return entities.map((source) => {
+    const row: CopyRow = { sourcePartitionKey: source.partitionKey, sourceRowKey: source.rowKey, errors: [] };
+    const partitionKey = rewriteKey(source.partitionKey, "partitionKey", rules);
+    const rowKey = rewriteKey(source.rowKey, "rowKey", rules);
+    const { entity, error } = buildEntity(partitionKey, rowKey, entityToProperties(source));
+    if (error) row.errors.push(error);
+
+    // Mehrere Quellen auf denselben Zielschlüssel würden sich gegenseitig überschreiben
+    const key = getEntityKey({ partitionKey, rowKey });
+    const duplicateOf = seenKeys.get(key);
+    if (duplicateOf !== undefined) row.errors.push(`Zielschlüssel bereits durch ${duplicateOf} belegt`);
+    else seenKeys.set(key, `${source.partitionKey} / ${source.rowKey}`);
+
+    return row.errors.length === 0 ? { ...row, entity } : row;
+  });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { CsvParser, detectHeader, parseCsv, sniffDelimiter, toTsv } from "./csvUtils";
+
+describe("CsvParser", () => {
+  it.each([
+    { name: "einfache Felder", input: "a,b\n1,2", delimiter: ",", rows: [["a", "b"], ["1", "2"]] },
+    { name: "Trennzeichen in Anführungszeichen", input: "\"a,b\",c\n1,2", delimiter: ",", rows: [["a,b", "c"], ["1", "2"]] },
+    { name: "verdoppelte Anführungszeichen", input: "\"sagte \"\"hallo\"\"\",x", delimiter: ",", rows: [["sagte \"hallo\"", "x"]] },
+    { name: "Zeilenumbruch im Feld", input: "\"zeile 1\nzeile 2\",b\nc,d", delimiter: ",", rows: [["zeile 1\nzeile 2", "b"], ["c", "d"]] },
+    { name: "CRLF-Zeilenenden", input: "a,b\r\n1,2\r\n", delimiter: ",", rows: [["a", "b"], ["1", "2"]] },
+    { name: "Semikolon", input: "a;b,c\n1;2,5", delimiter: ";", rows: [["a", "b,c"], ["1", "2,5"]] },
+    { name: "Tabulator", input: "a\tb\n\"x\ty\"\tz", delimiter: "\t", rows: [["a", "b"], ["x\ty", "z"]] },
+    { name: "Pipe", input: "a|b\n1|2", delimiter: "|", rows: [["a", "b"], ["1", "2"]] },
+    { name: "leere Felder und Leerzeilen", input: "a,,c\n\n,b,", delimiter: ",", rows: [["a", "", "c"], ["", "b", ""]] },
+    { name: "Anführungszeichen mitten im Feld", input: "5\" Zoll,b", delimiter: ",", rows: [["5\" Zoll", "b"]] },
+    { name: "Leerraum nach schließendem Anführungszeichen", input: "\"a\"  ,b", delimiter: ",", rows: [["a", "b"]] },
+  ])("$name", ({ input, delimiter, rows }) => {
+    expect(parseCsv(input, delimiter)).toEqual(rows);
+  });
+
+  it("liefert dasselbe Ergebnis bei beliebig geteilten Chunks", () => {
+    const input = "\"a\"\"b\",\"c\r\nd\"\r\n1,2\r\n";
+    const expected = parseCsv(input, ",");
+    for (let split = 1; split < input.length; split++) {
+      const parser = new CsvParser(",");
+      const rows = [...parser.push(input.slice(0, split)), ...parser.push(input.slice(split)), ...parser.finish()];
+      expect(rows, `Teilung bei ${split}`).toEqual(expected);
+    }
+  });
+
+  it("meldet offene Anführungszeichen", () => {
+    const parser = new CsvParser(",");
+    parser.push("a,\"offen\nb");
+    expect(parser.isInsideQuotes).toBe(true);
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it.each([
+    { input: "a,b,c\n1,2,3", delimiter: "," },
+    { input: "a;b;c\n1,5;2,5;3,5", delimiter: ";" },
+    { input: "a\tb\tc\n1\t2\t3", delimiter: "\t" },
+    { input: "a|b|c\n1|2|3", delimiter: "|" },
+    { input: "\"x,y\";b\n\"1,2\";3", delimiter: ";" },
+  ])("erkennt $delimiter", ({ input, delimiter }) => {
+    expect(sniffDelimiter(input)?.delimiter).toBe(delimiter);
+  });
+
+  it("findet bei Fließtext kein Trennzeichen", () => {
+    expect(sniffDelimiter("Nur ein Satz\nund noch einer")).toBeNull();
+  });
+});
+
+describe("detectHeader", () => {
+  it.each([
+    { name: "Namen über Zahlen", rows: [["id", "wert"], ["1", "2"], ["3", "4"]], expected: true },
+    { name: "nur Zahlen", rows: [["1", "2"], ["3", "4"]], expected: false },
+    { name: "wiederkehrende Werte", rows: [["a", "b"], ["a", "c"]], expected: false },
+    { name: "leere Zelle in der ersten Zeile", rows: [["name", ""], ["x", "1"]], expected: false },
+  ])("$name", ({ rows, expected }) => {
+    expect(detectHeader(rows)).toBe(expected);
+  });
+});
+
+describe("toTsv", () => {
+  it("setzt Felder mit Tabulator, Umbruch oder Anführungszeichen in Anführungszeichen", () => {
+    expect(toTsv([["a", "b\tc"], ["d\ne", "\"f\""]])).toBe("a\t\"b\tc\"\n\"d\ne\"\t\"\"\"f\"\"\"");
+  });
+});
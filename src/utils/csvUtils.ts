@@ -0,0 +1,167 @@
+export interface CsvTable {
+  delimiter: string;
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+const DELIMITERS = [",", ";", "\t", "|"];
+const SNIFF_SAMPLE_LENGTH = 16 * 1024;
+const NUMBER_PATTERN = /^[-+]?(\d+([.,]\d+)?|[.,]\d+)([eE][-+]?\d+)?$/;
+
+// Zustandsautomat nach RFC 4180; Chunks dürfen an beliebiger Stelle enden, auch mitten in Anführungszeichen oder CRLF
+export class CsvParser {
+  private readonly delimiter: string;
+  private row: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  private quoteClosed = false;
+  private pendingQuote = false;
+  private pendingCarriageReturn = false;
+  private fieldStarted = false;
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter;
+  }
+
+  get isInsideQuotes(): boolean {
+    return this.inQuotes;
+  }
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+    for (const char of chunk) this.consume(char, rows);
+    return rows;
+  }
+
+  finish(): string[][] {
+    const rows: string[][] = [];
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+      this.quoteClosed = true;
+    }
+    if (this.fieldStarted || this.row.length > 0) this.endRow(rows);
+    return rows;
+  }
+
+  private consume(char: string, rows: string[][]) {
+    if (this.pendingCarriageReturn) {
+      this.pendingCarriageReturn = false;
+      if (char === "\n") return;
+    }
+
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      if (char === "\"") {
+        // "" innerhalb eines Feldes steht für ein einzelnes Anführungszeichen
+        this.field += "\"";
+        return;
+      }
+      this.inQuotes = false;
+      this.quoteClosed = true;
+    }
+
+    if (this.inQuotes) {
+      if (char === "\"") this.pendingQuote = true;
+      else this.field += char;
+      return;
+    }
+
+    if (char === this.delimiter) {
+      this.endField();
+    } else if (char === "\n" || char === "\r") {
+      this.endRow(rows);
+      this.pendingCarriageReturn = char === "\r";
+    } else if (char === "\"" && !this.fieldStarted) {
+      this.inQuotes = true;
+      this.fieldStarted = true;
+    } else if (!this.quoteClosed) {
+      // Anführungszeichen mitten in unquotierten Feldern werden tolerant als Text übernommen
+      this.field += char;
+      this.fieldStarted = true;
+    } else if (char !== " " && char !== "\t") {
+      this.field += char;
+    }
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = "";
+    this.fieldStarted = false;
+    this.quoteClosed = false;
+  }
+
+  private endRow(rows: string[][]) {
+    this.endField();
+    // Leerzeilen überspringen
+    if (this.row.length > 1 || this.row[0] !== "") rows.push(this.row);
+    this.row = [];
+  }
+}
+
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const parser = new CsvParser(delimiter);
+  return [...parser.push(text), ...parser.finish()];
+}
+
+function scoreDelimiter(sample: string, delimiter: string, isTruncated: boolean): number {
+  const parser = new CsvParser(delimiter);
+  const rows = parser.push(sample);
+  if (!isTruncated) rows.push(...parser.finish());
+  if (rows.length === 0) return 0;
+
+  const counts = new Map<number, number>();
+  for (const row of rows) counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+  let modeLength = 0;
+  let modeCount = 0;
+  for (const [length, count] of counts) {
+    if (count > modeCount || (count === modeCount && length > modeLength)) {
+      modeLength = length;
+      modeCount = count;
+    }
+  }
+  if (modeLength < 2) return 0;
+
+  // Konsistenz zählt am meisten, mehr Spalten entscheiden bei Gleichstand
+  const consistency = modeCount / rows.length;
+  return consistency * 100 + Math.min(modeLength, 50) / 50;
+}
+
+export function sniffDelimiter(text: string): { delimiter: string; consistency: number } | null {
+  const isTruncated = text.length > SNIFF_SAMPLE_LENGTH;
+  const sample = isTruncated ? text.slice(0, SNIFF_SAMPLE_LENGTH) : text;
+
+  let best: { delimiter: string; score: number } | null = null;
+  for (const delimiter of DELIMITERS) {
+    const score = scoreDelimiter(sample, delimiter, isTruncated);
+    if (score > 0 && (!best || score > best.score)) best = { delimiter, score };
+  }
+  return best && { delimiter: best.delimiter, consistency: Math.floor(best.score) / 100 };
+}
+
+function isNumeric(value: string): boolean {
+  return NUMBER_PATTERN.test(value.trim());
+}
+
+// Kopfzeile, wenn sie keine Zahlen und keine Lücken enthält und sich von den Datenzeilen unterscheidet
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...body] = rows;
+  if (first.some((cell) => cell.trim() === "" || isNumeric(cell))) return false;
+  if (new Set(first.map((cell) => cell.trim().toLowerCase())).size !== first.length) return false;
+
+  const numericColumn = first.some((_, index) => {
+    const values = body.map((row) => row[index] ?? "").filter((value) => value.trim() !== "");
+    return values.length > 0 && values.every(isNumeric);
+  });
+  if (numericColumn) return true;
+
+  // Ohne Zahlenspalten: Kopfzeile, wenn keiner ihrer Werte in der jeweiligen Spalte wiederkehrt
+  return first.every((cell, index) => body.every((row) => row[index] !== cell));
+}
+
+export function toTsv(rows: string[][]): string {
+  return rows
+    .map((row) => row.map((cell) => (/[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, "\"\"")}"` : cell)).join("\t"))
+    .join("\n");
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { PROPERTY_TYPES, type TableEntity } from "../types";
+import { diffEntities, parseSnapshot } from "./diffUtils";
+
+const SNAPSHOT_CSV = "PartitionKey,RowKey,Created,Created@type\r\np,1,2024-05-01T12:00:00Z,DateTime\r\n";
+
+function liveEntity(created: unknown): TableEntity {
+  return { partitionKey: "p", rowKey: "1", Created: created, [PROPERTY_TYPES]: { Created: "DateTime" } };
+}
+
+describe("diffEntities mit Vergleichsstand", () => {
+  const { entities: snapshot } = parseSnapshot("stand.csv", SNAPSHOT_CSV);
+
+  it.each([
+    { name: "ISO-String mit Millisekunden", created: "2024-05-01T12:00:00.000Z" },
+    { name: "SDK-Wert mit 7 Nachkommastellen", created: { value: "2024-05-01T12:00:00.0000000Z", type: "DateTime" } },
+    { name: "Date-Objekt", created: new Date("2024-05-01T12:00:00Z") },
+  ])("erkennt gleiche DateTime-Werte: $name", ({ created }) => {
+    expect(diffEntities(snapshot, [liveEntity(created)]).counts).toMatchObject({ changed: 0, unchanged: 1 });
+  });
+
+  it("meldet abweichende DateTime-Werte", () => {
+    const diff = diffEntities(snapshot, [liveEntity("2024-05-01T12:00:01.000Z")]);
+    expect(diff.entries[0].properties).toEqual([
+      {
+        name: "Created",
+        status: "changed",
+        left: { value: "2024-05-01T12:00:00.000Z", type: "DateTime" },
+        right: { value: "2024-05-01T12:00:01.000Z", type: "DateTime" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import { PROPERTY_TYPES, type EdmType, type TableEntity } from "../types";
+import type { WritableEntity } from "../services/azureTableService";
+import { fromTypedValue, getEntityColumns, getEntityKey, getPropertyType, toEditorValue } from "./entityUtils";
+import { toCsvField, type ExportFile } from "./exportUtils";
+import { buildImportRows, detectMappings, parseImportFile } from "./importUtils";
+import { isJsonContainer, toJsonPath, tryParseJson } from "./jsonUtils";
+
+export type EntityDiffStatus = "added" | "removed" | "changed";
+
+export interface DiffValue {
+  value: string;
+  type: EdmType;
+}
+
+export interface JsonChange {
+  path: string;
+  status: EntityDiffStatus;
+  left?: unknown;
+  right?: unknown;
+}
+
+export interface PropertyDiff {
+  name: string;
+  status: EntityDiffStatus;
+  left?: DiffValue;
+  right?: DiffValue;
+  // Nur wenn beide Seiten JSON enthalten
+  jsonChanges?: JsonChange[];
+}
+
+export interface EntityDiff {
+  key: string;
+  partitionKey: string;
+  rowKey: string;
+  status: EntityDiffStatus;
+  properties: PropertyDiff[];
+}
+
+export interface TableDiff {
+  // Nur abweichende Entitäten, sortiert nach PartitionKey und RowKey
+  entries: EntityDiff[];
+  counts: Record<EntityDiffStatus | "unchanged", number>;
+}
+
+export interface Snapshot {
+  entities: TableEntity[];
+  skippedRows: number;
+}
+
+// Vom Service gesetzt und daher zwischen zwei Tabellen immer verschieden
+export const DEFAULT_IGNORED_PROPERTIES = ["timestamp", "etag"];
+
+function toDiffValue(entity: TableEntity, name: string): DiffValue | undefined {
+  const value = entity[name];
+  if (value === undefined || value === null) return undefined;
+  const type = getPropertyType(entity, name);
+  return { value: toEditorValue(value, type), type };
+}
+
+function diffJson(left: unknown, right: unknown, path: string, changes: JsonChange[]) {
+  if (isJsonContainer(left) && isJsonContainer(right) && Array.isArray(left) === Array.isArray(right)) {
+    const leftRecord = left as Record<string, unknown>;
+    const rightRecord = right as Record<string, unknown>;
+    const keys = new Set([...Object.keys(leftRecord), ...Object.keys(rightRecord)]);
+    for (const key of keys) {
+      const childPath = toJsonPath(path, Array.isArray(left) ? Number(key) : key);
+      if (!(key in rightRecord)) changes.push({ path: childPath, status: "removed", left: leftRecord[key] });
+      else if (!(key in leftRecord)) changes.push({ path: childPath, status: "added", right: rightRecord[key] });
+      else diffJson(leftRecord[key], rightRecord[key], childPath, changes);
+    }
+    return;
+  }
+  if (JSON.stringify(left) !== JSON.stringify(right)) changes.push({ path, status: "changed", left, right });
+}
+
+function diffProperty(name: string, left?: DiffValue, right?: DiffValue): PropertyDiff | null {
+  if (!left && !right) return null;
+  if (!right) return { name, status: "removed", left };
+  if (!left) return { name, status: "added", right };
+  if (left.type === right.type && left.value === right.value) return null;
+
+  const leftJson = left.type === "String" ? tryParseJson(left.value) : null;
+  const rightJson = right.type === "String" ? tryParseJson(right.value) : null;
+  if (leftJson?.isJson && rightJson?.isJson) {
+    const jsonChanges: JsonChange[] = [];
+    diffJson(leftJson.parsed, rightJson.parsed, "$", jsonChanges);
+    // Nur anders formatiert oder Schlüssel umsortiert: inhaltlich gleich
+    if (jsonChanges.length === 0) return null;
+    return { name, status: "changed", left, right, jsonChanges };
+  }
+  return { name, status: "changed", left, right };
+}
+
+function diffEntity(left: TableEntity, right: TableEntity, ignored: string[]): PropertyDiff[] {
+  const names = getEntityColumns([left, right]).filter((name) => !ignored.includes(name));
+  return names.flatMap((name) => diffProperty(name, toDiffValue(left, name), toDiffValue(right, name)) ?? []);
+}
+
+function toEntityDiff(entity: TableEntity, status: EntityDiffStatus, properties: PropertyDiff[]): EntityDiff {
+  return { key: getEntityKey(entity), partitionKey: entity.partitionKey, rowKey: entity.rowKey, status, properties };
+}
+
+// Links ist die Ausgangsseite: "added" gibt es nur rechts, "removed" nur links
+export function diffEntities(left: TableEntity[], right: TableEntity[], ignored = DEFAULT_IGNORED_PROPERTIES): TableDiff {
+  const rightByKey = new Map(right.map((entity) => [getEntityKey(entity), entity]));
+  const leftKeys = new Set<string>();
+  const entries: EntityDiff[] = [];
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  for (const entity of left) {
+    const key = getEntityKey(entity);
+    leftKeys.add(key);
+    const match = rightByKey.get(key);
+    if (!match) {
+      entries.push(toEntityDiff(entity, "removed", []));
+      counts.removed++;
+      continue;
+    }
+    const properties = diffEntity(entity, match, ignored);
+    if (properties.length === 0) {
+      counts.unchanged++;
+      continue;
+    }
+    entries.push(toEntityDiff(entity, "changed", properties));
+    counts.changed++;
+  }
+  for (const entity of right) {
+    if (leftKeys.has(getEntityKey(entity))) continue;
+    entries.push(toEntityDiff(entity, "added", []));
+    counts.added++;
+  }
+
+  entries.sort((a, b) =>
+    a.partitionKey < b.partitionKey ? -1 : a.partitionKey > b.partitionKey ? 1 : a.rowKey < b.rowKey ? -1 : a.rowKey > b.rowKey ? 1 : 0
+  );
+  return { entries, counts };
+}
+
+function toSnapshotEntity(entity: WritableEntity): TableEntity {
+  const { partitionKey, rowKey, ...rest } = entity;
+  const result: TableEntity = { partitionKey, rowKey };
+  const types: Record<string, EdmType> = {};
+  for (const [key, raw] of Object.entries(rest)) {
+    const { value, type } = fromTypedValue(raw);
+    result[key] = value;
+    types[key] = type;
+  }
+  result[PROPERTY_TYPES] = types;
+  return result;
+}
+
+// Exportdateien (CSV, JSON, NDJSON) samt Typspalten als Vergleichsstand einlesen
+export function parseSnapshot(fileName: string, content: string): Snapshot {
+  const source = parseImportFile(fileName, content);
+  const rows = buildImportRows(source, detectMappings(source));
+  const entities = rows.flatMap((row) => (row.entity ? [toSnapshotEntity(row.entity)] : []));
+  return { entities, skippedRows: rows.length - entities.length };
+}
+
+function formatJsonValue(value: unknown): string {
+  return value === undefined ? "" : JSON.stringify(value);
+}
+
+export function exportDiffReport(diff: TableDiff, leftLabel: string, rightLabel: string, format: "json" | "csv"): ExportFile {
+  const fileName = `vergleich-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === "json") {
+    const report = { left: leftLabel, right: rightLabel, counts: diff.counts, entries: diff.entries };
+    return { data: JSON.stringify(report, null, 2), fileName, mimeType: "application/json" };
+  }
+
+  // Eine Zeile pro abweichender Eigenschaft bzw. JSON-Pfad
+  const rows: string[][] = [["Status", "PartitionKey", "RowKey", "Eigenschaft", "Pfad", leftLabel, rightLabel]];
+  for (const entry of diff.entries) {
+    if (entry.properties.length === 0) rows.push([entry.status, entry.partitionKey, entry.rowKey, "", "", "", ""]);
+    for (const property of entry.properties) {
+      if (property.jsonChanges) {
+        for (const change of property.jsonChanges) {
+          rows.push([change.status, entry.partitionKey, entry.rowKey, property.name, change.path, formatJsonValue(change.left), formatJsonValue(change.right)]);
+        }
+        continue;
+      }
+      rows.push([property.status, entry.partitionKey, entry.rowKey, property.name, "", property.left?.value ?? "", property.right?.value ?? ""]);
+    }
+  }
+  // Der Bericht wird nicht wieder importiert, daher alle Texte gegen Formeln schützen
+  const csv = rows.map((row) => row.map((cell) => toCsvField(cell, true)).join(",")).join("\r\n");
+  return { data: "\uFEFF" + csv + "\r\n", fileName, mimeType: "text/csv;charset=utf-8" };
+}
@@ -0,0 +1,265 @@
+import { PROPERTY_TYPES, type EdmType, type EntityProperty, type TableEntity } from "../types";
+
+export const EDM_TYPES: EdmType[] = ["String", "Int32", "Int64", "Double", "Boolean", "DateTime", "Guid", "Binary"];
+
+// Vom Service verwaltete Eigenschaften, die nicht bearbeitet werden können
+export const SYSTEM_KEYS = ["partitionKey", "rowKey", "timestamp", "etag"];
+
+const PRIORITY_COLUMNS = ["partitionKey", "rowKey", "timestamp"];
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+let idCounter = 0;
+
+function isTypedValue(value: unknown): value is { value: unknown; type: string } {
+  return typeof value === "object" && value !== null && "value" in value && "type" in value;
+}
+
+export function inferEdmType(value: unknown): EdmType {
+  if (typeof value === "boolean") return "Boolean";
+  if (typeof value === "bigint") return "Int64";
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX ? "Int32" : "Double";
+  }
+  if (value instanceof Date) return "DateTime";
+  if (value instanceof Uint8Array) return "Binary";
+  if (isTypedValue(value) && EDM_TYPES.includes(value.type as EdmType)) return value.type as EdmType;
+  return "String";
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// Wandelt die typisierten SDK-Werte ({ value, type }) in JSON-kompatible Werte um
+export function fromTypedValue(value: unknown): { value: unknown; type: EdmType } {
+  if (!isTypedValue(value)) {
+    return { value, type: inferEdmType(value) };
+  }
+  const type = inferEdmType(value);
+  switch (type) {
+    case "Int32":
+    case "Double":
+      return { value: Number(value.value), type };
+    case "Boolean":
+      return { value: value.value === true || value.value === "true", type };
+    case "DateTime":
+      return { value: new Date(String(value.value)).toISOString(), type };
+    default:
+      return { value: String(value.value), type };
+  }
+}
+
+// Fehlende, null- und Leerstring-Werte gelten beim Suchen, Sortieren und Auswerten gleichermaßen als leer
+export function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+export function getPropertyType(entity: TableEntity, property: string): EdmType {
+  return entity[PROPERTY_TYPES]?.[property] ?? inferEdmType(entity[property]);
+}
+
+export function getColumnType(entities: TableEntity[], column: string): EdmType | null {
+  const counts = new Map<EdmType, number>();
+  for (const entity of entities) {
+    if (entity[column] === undefined || entity[column] === null) continue;
+    const type = getPropertyType(entity, column);
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+  let result: EdmType | null = null;
+  let max = 0;
+  for (const [type, count] of counts) {
+    if (count > max) {
+      max = count;
+      result = type;
+    }
+  }
+  return result;
+}
+
+// Alle vorkommenden Eigenschaften, Systemspalten zuerst, der Rest alphabetisch
+export function getEntityColumns(entities: TableEntity[]): string[] {
+  const columns = new Set<string>();
+  for (const entity of entities) {
+    for (const key of Object.keys(entity)) columns.add(key);
+  }
+  return [
+    ...PRIORITY_COLUMNS.filter((col) => columns.has(col)),
+    ...[...columns].filter((col) => !PRIORITY_COLUMNS.includes(col)).sort(),
+  ];
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Mit Typ werden DateTime-Werte (Date, ISO-String oder SDK-Wert) auf dieselbe ISO-Form gebracht
+export function toEditorValue(value: unknown, type?: EdmType): string {
+  if (value === null || value === undefined) return "";
+  if (type === "DateTime") {
+    const date = value instanceof Date ? value : new Date(String(isTypedValue(value) ? value.value : value));
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return bytesToBase64(value);
+  if (isTypedValue(value)) return String(value.value);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleString("de-DE", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }) + " UTC";
+}
+
+// Anzeigeform in Tabelle und Detailansicht
+export function formatPropertyValue(value: unknown, type?: EdmType): string {
+  if (value === null || value === undefined) return "-";
+  if (type === "DateTime" && typeof value === "string") {
+    return formatTimestamp(value);
+  }
+  if (type === "Binary" && typeof value === "string") {
+    return `${base64ToBytes(value).length} Bytes`;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function createProperty(name = "", type: EdmType = "String", value = ""): EntityProperty {
+  idCounter++;
+  return { id: `p-${idCounter}`, name, type, value };
+}
+
+export function entityToProperties(entity: TableEntity): EntityProperty[] {
+  return Object.entries(entity)
+    .filter(([key]) => !SYSTEM_KEYS.includes(key))
+    .map(([key, value]) => createProperty(key, getPropertyType(entity, key), toEditorValue(value)));
+}
+
+export function validateProperty(property: EntityProperty): string | null {
+  const name = property.name.trim();
+  if (!/^[A-Za-z_][A-Za-z0-9_]{0,254}$/.test(name)) {
+    return `Ungültiger Eigenschaftsname: "${property.name}"`;
+  }
+  if (SYSTEM_KEYS.includes(name)) {
+    return `"${name}" ist eine Systemeigenschaft`;
+  }
+
+  const value = property.value.trim();
+  switch (property.type) {
+    case "Int32": {
+      const num = Number(value);
+      if (value === "" || !Number.isInteger(num) || num < INT32_MIN || num > INT32_MAX) {
+        return `${name}: "${property.value}" ist kein gültiger Int32-Wert`;
+      }
+      return null;
+    }
+    case "Int64":
+      if (!/^-?\d+$/.test(value)) {
+        return `${name}: "${property.value}" ist kein gültiger Int64-Wert`;
+      }
+      return null;
+    case "Double":
+      if (value === "" || isNaN(Number(value))) {
+        return `${name}: "${property.value}" ist keine gültige Zahl`;
+      }
+      return null;
+    case "Boolean":
+      if (value !== "true" && value !== "false") {
+        return `${name}: "${property.value}" ist kein Boolean (true/false)`;
+      }
+      return null;
+    case "DateTime":
+      if (value === "" || isNaN(new Date(value).getTime())) {
+        return `${name}: "${property.value}" ist kein gültiges Datum`;
+      }
+      return null;
+    case "Guid":
+      if (!GUID_PATTERN.test(value)) {
+        return `${name}: "${property.value}" ist keine gültige Guid`;
+      }
+      return null;
+    case "Binary":
+      if (!BASE64_PATTERN.test(value) || value.length % 4 !== 0) {
+        return `${name}: Binary-Werte müssen Base64-kodiert sein`;
+      }
+      return null;
+    case "String":
+      return null;
+  }
+}
+
+// Wandelt den Editor-Wert in die Darstellung um, die das SDK mit dem richtigen EDM-Typ serialisiert
+export function toSdkValue(property: EntityProperty): unknown {
+  const value = property.value.trim();
+  switch (property.type) {
+    case "String":
+      return property.value;
+    case "Int32":
+      return Number(value);
+    case "Boolean":
+      return value === "true";
+    case "DateTime":
+      return new Date(value);
+    case "Int64":
+    case "Double":
+    case "Guid":
+    case "Binary":
+      return { value, type: property.type };
+  }
+}
+
+export function buildEntity(
+  partitionKey: string,
+  rowKey: string,
+  properties: EntityProperty[]
+): { entity?: Record<string, unknown> & { partitionKey: string; rowKey: string }; error?: string } {
+  const keyError = validateKey(partitionKey, "PartitionKey") ?? validateKey(rowKey, "RowKey");
+  if (keyError) return { error: keyError };
+
+  const entity: Record<string, unknown> & { partitionKey: string; rowKey: string } = { partitionKey, rowKey };
+  for (const property of properties) {
+    const error = validateProperty(property);
+    if (error) return { error };
+    const name = property.name.trim();
+    if (name in entity) return { error: `Eigenschaft "${name}" ist doppelt vorhanden` };
+    entity[name] = toSdkValue(property);
+  }
+  return { entity };
+}
+
+export function validateKey(key: string, label: string): string | null {
+  // Laut Azure-Dokumentation in PartitionKey und RowKey nicht erlaubt: / \ # ? und Steuerzeichen
+  const hasControlChar = [...key].some((char) => {
+    const code = char.charCodeAt(0);
+    return code <= 0x1f || (code >= 0x7f && code <= 0x9f);
+  });
+  if (/[/\\#?]/.test(key) || hasControlChar) {
+    return `${label} enthält unzulässige Zeichen (/ \\ # ? oder Steuerzeichen)`;
+  }
+  if (key.length > 1024) {
+    return `${label} darf höchstens 1024 Zeichen lang sein`;
+  }
+  return null;
+}
+
+export function getEntityKey(entity: Pick<TableEntity, "partitionKey" | "rowKey">): string {
+  return `${entity.partitionKey}\u0000${entity.rowKey}`;
+}
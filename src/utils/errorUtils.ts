@@ -0,0 +1,83 @@
+import { RestError } from "@azure/data-tables";
+
+export interface ErrorDescription {
+  message: string;
+  hint?: string;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function getRestErrorCode(error: RestError): string | undefined {
+  if (error.code) return error.code;
+  const details = error.details as { errorCode?: string; odataError?: { code?: string } } | undefined;
+  return details?.errorCode ?? details?.odataError?.code;
+}
+
+// Übersetzt SDK- und REST-Fehler in Meldungen, mit denen Anwender etwas anfangen können
+export function describeError(error: unknown): ErrorDescription {
+  if (!(error instanceof Error)) return { message: "Unbekannter Fehler" };
+
+  // Am Namen erkannt wie AbortError, damit utils nicht von services abhängt
+  if (error.name === "EmulatorUnavailableError") {
+    return {
+      message: error.message,
+      hint: "Läuft Azurite? Starten mit \"npx azurite-table --tableHost 127.0.0.1 --tablePort 10002\" oder per Docker mit \"docker run -p 10002:10002 mcr.microsoft.com/azure-storage/azurite azurite-table --tableHost 0.0.0.0\".",
+    };
+  }
+
+  if (error.message.includes("only supported in Node.js")) {
+    return {
+      message: "Connection Strings mit AccountKey werden im Browser nicht unterstützt.",
+      hint: "Erzeugen Sie im Azure-Portal unter \"Shared Access Signature\" einen SAS und verbinden Sie sich über Account-URL + SAS.",
+    };
+  }
+
+  if (error.message.startsWith("Invalid ") && error.message.includes("Connection String")) {
+    return {
+      message: "Der Connection String ist unvollständig.",
+      hint: "Ein SAS-Connection-String benötigt TableEndpoint und SharedAccessSignature.",
+    };
+  }
+
+  if (!(error instanceof RestError)) return { message: error.message };
+
+  const code = getRestErrorCode(error);
+
+  if (error.statusCode === undefined || code === "REQUEST_SEND_ERROR") {
+    return {
+      message: "Der Table-Endpunkt ist nicht erreichbar.",
+      hint: "Prüfen Sie den Kontonamen bzw. die Endpunkt-URL (DNS) und ob für den Table-Dienst eine CORS-Regel für diesen Ursprung eingerichtet ist.",
+    };
+  }
+
+  if (error.statusCode === 403) {
+    if (code === "AuthorizationPermissionMismatch" || code === "AuthorizationResourceTypeMismatch") {
+      return {
+        message: "Der SAS erlaubt diese Operation nicht.",
+        hint: "Für die Tabellenliste werden srt=s und sp=l benötigt, zum Lesen von Entitäten srt=o und sp=r.",
+      };
+    }
+    return {
+      message: "Die Authentifizierung ist fehlgeschlagen.",
+      hint: "Der Schlüssel oder die SAS-Signatur ist falsch, abgelaufen oder die Systemzeit weicht zu stark ab.",
+    };
+  }
+
+  if (error.statusCode === 404) {
+    if (code === "TableNotFound" || code === "ResourceNotFound") {
+      return {
+        message: "Die Tabelle existiert nicht.",
+        hint: "Die Tabelle wurde möglicherweise gelöscht oder der Name ist falsch geschrieben (Groß-/Kleinschreibung beachten).",
+      };
+    }
+    return { message: "Die Ressource wurde nicht gefunden.", hint: "Prüfen Sie die Endpunkt-URL." };
+  }
+
+  if (error.statusCode === 400 && code === "InvalidInput") {
+    return { message: "Der Service hat die Anfrage abgelehnt.", hint: "Prüfen Sie den Filterausdruck auf Syntaxfehler." };
+  }
+
+  return { message: error.message };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { PROPERTY_TYPES, type TableEntity } from "../types";
+import { exportEntities, toCsvField } from "./exportUtils";
+import { buildImportRows, detectMappings, parseImportFile } from "./importUtils";
+
+describe("toCsvField", () => {
+  it.each([
+    { value: "abc", field: "abc" },
+    { value: "a,b", field: "\"a,b\"" },
+    { value: "sagt \"hi\"", field: "\"sagt \"\"hi\"\"\"" },
+    { value: " Rand ", field: "\" Rand \"" },
+    { value: "=SUMME(A1:A2)", field: "'=SUMME(A1:A2)" },
+    { value: "+49 30 1234", field: "'+49 30 1234" },
+    { value: "-1+1", field: "'-1+1" },
+    { value: "@cmd", field: "'@cmd" },
+    { value: "=HYPERLINK(\"x\",\"y\")", field: "\"'=HYPERLINK(\"\"x\"\",\"\"y\"\")\"" },
+    { value: -5, field: "-5" },
+    { value: null, field: "" },
+  ])("$value → $field", ({ value, field }) => {
+    expect(toCsvField(value, true)).toBe(field);
+  });
+
+  it("lässt Werte ohne Schutz unverändert", () => {
+    expect(toCsvField("-5")).toBe("-5");
+  });
+});
+
+describe("CSV-Export und Re-Import", () => {
+  const entities: TableEntity[] = [
+    {
+      partitionKey: "-1",
+      rowKey: "=a",
+      Big: "-5",
+      Data: "+/8=",
+      Phone: "+49 30 1234",
+      Formula: "=SUMME(A1:A2)",
+      Quote: "'schon da",
+      [PROPERTY_TYPES]: { Big: "Int64", Data: "Binary", Phone: "String", Formula: "String", Quote: "String" },
+    },
+  ];
+  const columns = ["partitionKey", "rowKey", "Big", "Data", "Phone", "Formula", "Quote"];
+
+  it("schützt nur String-Werte und stellt sie beim Import wieder her", () => {
+    const file = exportEntities(entities, "t", { format: "csv", columns, flattenJson: false, includeTypes: true });
+    const csv = file.data as string;
+    expect(csv).toContain(",-5,Edm.Int64,+/8=,Edm.Binary,'+49 30 1234,");
+
+    const source = parseImportFile("t.csv", csv);
+    const [row] = buildImportRows(source, detectMappings(source));
+    expect(row.errors).toEqual([]);
+    expect(row.entity).toEqual({
+      partitionKey: "-1",
+      rowKey: "=a",
+      Big: { value: "-5", type: "Int64" },
+      Data: { value: "+/8=", type: "Binary" },
+      Phone: "+49 30 1234",
+      Formula: "=SUMME(A1:A2)",
+      Quote: "'schon da",
+    });
+  });
+});
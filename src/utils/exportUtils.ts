@@ -0,0 +1,199 @@
+import type { EdmType, TableEntity } from "../types";
+import { getEntityColumns, getPropertyType } from "./entityUtils";
+import { tryParseJson } from "./jsonUtils";
+import { toODataProperty } from "./odataUtils";
+import { createXlsx, type XlsxCell } from "./xlsxWriter";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[];
+  flattenJson: boolean;
+  includeTypes: boolean;
+}
+
+export interface ExportFile {
+  data: BlobPart;
+  fileName: string;
+  mimeType: string;
+}
+
+interface ExportColumn {
+  name: string;
+  type?: EdmType;
+}
+
+type ExportRecord = Record<string, unknown>;
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  { value: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { value: "ndjson", label: "NDJSON", extension: "ndjson", mimeType: "application/x-ndjson" },
+  { value: "xlsx", label: "Excel (XLSX)", extension: "xlsx", mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+];
+
+// Typspalten wie im Azure Storage Explorer, damit die Datei wieder importiert werden kann
+export const CSV_TYPE_SUFFIX = "@type";
+export const JSON_TYPE_SUFFIX = "@odata.type";
+
+// PartitionKey, RowKey und Timestamp haben feste Typen und brauchen keine Annotation
+const UNTYPED_COLUMNS = ["partitionKey", "rowKey", "timestamp"];
+
+function flattenValue(value: unknown, prefix: string, target: ExportRecord) {
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+    if (entries.length === 0) {
+      target[prefix] = JSON.stringify(value);
+      return;
+    }
+    for (const [key, item] of entries) flattenValue(item, `${prefix}.${key}`, target);
+    return;
+  }
+  target[prefix] = value;
+}
+
+function toRecords(
+  entities: TableEntity[],
+  options: ExportOptions
+): { columns: ExportColumn[]; records: ExportRecord[]; recordTypes: Record<string, EdmType>[] } {
+  const columnOrder = new Map<string, ExportColumn>();
+  const records: ExportRecord[] = [];
+  // EDM-Typ je Wert, auch ohne Typspalten; abgeflachtes JSON zählt als String
+  const recordTypes: Record<string, EdmType>[] = [];
+
+  for (const entity of entities) {
+    const record: ExportRecord = {};
+    const types: Record<string, EdmType> = {};
+    for (const column of options.columns) {
+      const value = entity[column];
+      if (value === undefined) continue;
+      const name = toODataProperty(column);
+      const type = getPropertyType(entity, column);
+      const parsed = options.flattenJson && type === "String" ? tryParseJson(value) : null;
+
+      if (parsed?.isJson) {
+        const flattened: ExportRecord = {};
+        flattenValue(parsed.parsed, name, flattened);
+        for (const key of Object.keys(flattened)) {
+          if (!columnOrder.has(key)) columnOrder.set(key, { name: key });
+          types[key] = "String";
+        }
+        Object.assign(record, flattened);
+        continue;
+      }
+
+      if (!columnOrder.has(name)) columnOrder.set(name, { name });
+      record[name] = value;
+      types[name] = type;
+      if (options.includeTypes && !UNTYPED_COLUMNS.includes(column)) {
+        columnOrder.get(name)!.type ??= type;
+        record[`${name}${JSON_TYPE_SUFFIX}`] = `Edm.${type}`;
+      }
+    }
+    records.push(record);
+    recordTypes.push(types);
+  }
+
+  // Abgeflachte Spalten direkt hinter ihrer Ursprungsspalte einsortieren
+  const columns = options.columns.flatMap((column) => {
+    const name = toODataProperty(column);
+    return [...columnOrder.values()].filter((c) => c.name === name || c.name.startsWith(`${name}.`));
+  });
+  return { columns, records, recordTypes };
+}
+
+// Tabellenkalkulationen werten Zellen mit diesen Anfangszeichen als Formel aus
+const FORMULA_PREFIX = /^[=+\-@]/;
+const NEUTRALIZED_FORMULA = /^'[=+\-@]/;
+
+// Nur für String-Werte: Int64 und Binary sind über die Typspalte erkennbar und bleiben unverändert
+export function toCsvField(value: unknown, neutralizeFormula = false): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (neutralizeFormula && typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+// Gegenstück zu toCsvField beim Import: das vorangestellte Hochkomma wieder entfernen
+export function restoreCsvFormula(text: string): string {
+  return NEUTRALIZED_FORMULA.test(text) ? text.slice(1) : text;
+}
+
+// valueColumns nennt je Zelle die zugehörige Eigenschaft, bei Typspalten undefined
+function toTableRows(
+  columns: ExportColumn[],
+  records: ExportRecord[]
+): { header: string[]; valueColumns: (string | undefined)[]; rows: unknown[][] } {
+  const header: string[] = [];
+  const valueColumns: (string | undefined)[] = [];
+  for (const column of columns) {
+    header.push(column.name);
+    valueColumns.push(column.name);
+    if (column.type) {
+      header.push(`${column.name}${CSV_TYPE_SUFFIX}`);
+      valueColumns.push(undefined);
+    }
+  }
+  const rows = records.map((record) =>
+    columns.flatMap((column) => {
+      const value = record[column.name];
+      if (!column.type) return [value];
+      return [value, value === undefined ? undefined : record[`${column.name}${JSON_TYPE_SUFFIX}`]];
+    })
+  );
+  return { header, valueColumns, rows };
+}
+
+// Int64 liegt bereits als Text vor und bleibt so, da Excel nur 15 signifikante Stellen kennt
+function toXlsxCell(value: unknown): XlsxCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export function exportEntities(entities: TableEntity[], tableName: string, options: ExportOptions): ExportFile {
+  const format = EXPORT_FORMATS.find((f) => f.value === options.format)!;
+  const fileName = `${tableName}-${new Date().toISOString().slice(0, 10)}.${format.extension}`;
+  const { columns, records, recordTypes } = toRecords(entities, options);
+
+  switch (options.format) {
+    case "json":
+      return { data: JSON.stringify(records, null, 2), fileName, mimeType: format.mimeType };
+    case "ndjson":
+      return { data: records.map((record) => JSON.stringify(record)).join("\n") + "\n", fileName, mimeType: format.mimeType };
+    case "csv": {
+      const { header, valueColumns, rows } = toTableRows(columns, records);
+      const lines = [
+        header.map((name) => toCsvField(name)).join(","),
+        ...rows.map((row, index) =>
+          row.map((cell, c) => toCsvField(cell, recordTypes[index][valueColumns[c] ?? ""] === "String")).join(",")
+        ),
+      ];
+      // BOM, damit Excel die Datei als UTF-8 erkennt
+      return { data: "\uFEFF" + lines.join("\r\n") + "\r\n", fileName, mimeType: format.mimeType };
+    }
+    case "xlsx": {
+      const { header, rows } = toTableRows(columns, records);
+      const cells = rows.map((row) => row.map(toXlsxCell));
+      return { data: createXlsx(tableName, [header, ...cells]) as BlobPart, fileName, mimeType: format.mimeType };
+    }
+  }
+}
+
+// Einzelne Entität mit Typannotationen, im selben Format wie der JSON-Export und ohne ETag
+export function entityToJson(entity: TableEntity): string {
+  const columns = getEntityColumns([entity]).filter((column) => column !== "etag");
+  const options: ExportOptions = { format: "json", columns, flattenJson: false, includeTypes: true };
+  return JSON.stringify(toRecords([entity], options).records[0], null, 2);
+}
+
+export function downloadFile({ data, fileName, mimeType }: ExportFile) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Erst nach dem Start des Downloads freigeben, sonst brechen manche Browser ihn ab
+  window.setTimeout(() => URL.revokeObjectURL(url));
+}
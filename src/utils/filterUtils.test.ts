@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import type { TableEntity } from "../types";
+import { filterEntities } from "./filterUtils";
+
+const entities: TableEntity[] = [
+  { partitionKey: "p", rowKey: "1", Name: "Anna" },
+  { partitionKey: "p", rowKey: "2", Name: "Ben", Notiz: "nur hier" },
+  { partitionKey: "p", rowKey: "3", Payload: "{\"stadt\":\"Köln\"}" },
+];
+
+describe("filterEntities", () => {
+  it("durchsucht alle Eigenschaften, auch wenn nur einzelne Entitäten sie haben", () => {
+    expect(filterEntities(entities, "nur hier", {}, {})).toEqual([entities[1]]);
+  });
+
+  it("durchsucht das ETag nicht", () => {
+    const withEtag = entities.map((entity) => ({ ...entity, etag: "W/\"datetime'2024-05-01T12%3A00%3A00Z'\"" }));
+    expect(filterEntities(withEtag, "W/", {}, {})).toEqual([]);
+  });
+
+  it("findet Werte in JSON-Eigenschaften", () => {
+    expect(filterEntities(entities, "köln", {}, {})).toEqual([entities[2]]);
+  });
+
+  it("liefert ohne Suche und Filter dieselbe Liste", () => {
+    expect(filterEntities(entities, " ", {}, {})).toBe(entities);
+  });
+});
@@ -0,0 +1,195 @@
+import type { ColumnFilter, ColumnFilterOperator, EdmType, TableEntity } from "../types";
+import { EDM_TYPES, getEntityColumns, getPropertyType, isEmpty } from "./entityUtils";
+import { isJsonContainer, tryParseJson, walkJson } from "./jsonUtils";
+
+export const FILTER_OPERATORS: { value: ColumnFilterOperator; label: string }[] = [
+  { value: "contains", label: "enthält" },
+  { value: "equals", label: "ist gleich" },
+  { value: "regex", label: "Regex" },
+  { value: "range", label: "zwischen" },
+  { value: "type", label: "Typ ist" },
+  { value: "empty", label: "ist leer" },
+  { value: "notEmpty", label: "ist nicht leer" },
+];
+
+type Comparable = number | bigint | string;
+
+// Suchtext pro Zelle einmalig berechnen; Entitäten sind unveränderlich
+const searchTextCache = new WeakMap<TableEntity, Map<string, string>>();
+
+export function getFilterOperators(type: EdmType | null): ColumnFilterOperator[] {
+  switch (type) {
+    case "Int32":
+    case "Int64":
+    case "Double":
+    case "DateTime":
+      return ["equals", "range", "type", "empty", "notEmpty"];
+    case "Boolean":
+      return ["equals", "type", "empty", "notEmpty"];
+    case "Binary":
+      return ["type", "empty", "notEmpty"];
+    case "Guid":
+      return ["contains", "equals", "type", "empty", "notEmpty"];
+    default:
+      return ["contains", "equals", "regex", "type", "empty", "notEmpty"];
+  }
+}
+
+// Bei JSON-Strings zusätzlich Schlüssel und Werte ohne Escaping, damit z. B. Umlaute aus ü gefunden werden
+function getSearchText(entity: TableEntity, column: string): string {
+  let entityCache = searchTextCache.get(entity);
+  if (!entityCache) {
+    entityCache = new Map();
+    searchTextCache.set(entity, entityCache);
+  }
+  let text = entityCache.get(column);
+  if (text === undefined) {
+    const value = entity[column];
+    const parts = [isEmpty(value) ? "" : typeof value === "object" ? JSON.stringify(value) : String(value)];
+    const { isJson, parsed } = typeof value === "string" ? tryParseJson(value) : { isJson: false, parsed: null };
+    if (isJson) {
+      walkJson(parsed, (node) => {
+        if (typeof node.key === "string") parts.push(node.key);
+        if (!isJsonContainer(node.value)) parts.push(String(node.value));
+      });
+    }
+    text = parts.join("\n").toLowerCase();
+    entityCache.set(column, text);
+  }
+  return text;
+}
+
+function toComparable(text: string, type: EdmType): Comparable | null {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  switch (type) {
+    case "Int32":
+    case "Double": {
+      const number = Number(trimmed);
+      return isNaN(number) ? null : number;
+    }
+    case "Int64":
+      try {
+        return BigInt(trimmed);
+      } catch {
+        return null;
+      }
+    case "DateTime": {
+      const time = Date.parse(trimmed);
+      return isNaN(time) ? null : time;
+    }
+    case "Boolean":
+      return trimmed.toLowerCase();
+    case "Guid":
+      return trimmed.toLowerCase();
+    default:
+      return trimmed;
+  }
+}
+
+export function getFilterError(filter: ColumnFilter, type: EdmType | null): string | null {
+  switch (filter.operator) {
+    case "contains":
+    case "equals":
+      if (filter.value === "") return "Wert angeben";
+      break;
+    case "regex":
+      if (filter.value === "") return "Ausdruck angeben";
+      try {
+        new RegExp(filter.value);
+      } catch {
+        return "Ungültiger regulärer Ausdruck";
+      }
+      break;
+    case "range":
+      if (filter.value.trim() === "" && filter.valueTo.trim() === "") return "Mindestens eine Grenze angeben";
+      break;
+    case "type":
+      if (!EDM_TYPES.includes(filter.value as EdmType)) return "Typ wählen";
+      break;
+  }
+
+  if ((filter.operator === "equals" || filter.operator === "range") && type) {
+    const bounds = filter.operator === "range" ? [filter.value, filter.valueTo] : [filter.value];
+    if (bounds.some((bound) => bound.trim() !== "" && toComparable(bound, type) === null)) {
+      return type === "DateTime" ? "Ungültiges Datum" : "Ungültige Zahl";
+    }
+  }
+  return null;
+}
+
+function createPredicate(column: string, filter: ColumnFilter): (entity: TableEntity) => boolean {
+  switch (filter.operator) {
+    case "empty":
+      return (entity) => isEmpty(entity[column]);
+    case "notEmpty":
+      return (entity) => !isEmpty(entity[column]);
+    case "type":
+      return (entity) => !isEmpty(entity[column]) && getPropertyType(entity, column) === filter.value;
+    case "contains": {
+      const needle = filter.value.toLowerCase();
+      return (entity) => getSearchText(entity, column).includes(needle);
+    }
+    case "regex": {
+      const pattern = new RegExp(filter.value, "i");
+      return (entity) => !isEmpty(entity[column]) && pattern.test(String(entity[column]));
+    }
+    case "equals":
+      return (entity) => {
+        const value = entity[column];
+        if (isEmpty(value)) return false;
+        // Pro Entität parsen, da Spalten gemischte Typen enthalten können
+        const type = getPropertyType(entity, column);
+        const expected = toComparable(filter.value, type);
+        return expected !== null && toComparable(String(value), type) === expected;
+      };
+    case "range":
+      return (entity) => {
+        const value = entity[column];
+        if (isEmpty(value)) return false;
+        const type = getPropertyType(entity, column);
+        const actual = toComparable(String(value), type);
+        if (actual === null) return false;
+        const lower = toComparable(filter.value, type);
+        const upper = toComparable(filter.valueTo, type);
+        if (lower !== null && (typeof lower !== typeof actual || actual < lower)) return false;
+        if (upper !== null && (typeof upper !== typeof actual || actual > upper)) return false;
+        return true;
+      };
+  }
+}
+
+// Die globale Suche umfasst alle Eigenschaften, auch ausgeblendete Spalten
+export function filterEntities(
+  entities: TableEntity[],
+  search: string,
+  filters: Record<string, ColumnFilter>,
+  columnTypes: Record<string, EdmType | null>
+): TableEntity[] {
+  const needle = search.trim().toLowerCase();
+  // Unvollständige Filter werden ignoriert statt alle Einträge auszublenden
+  const predicates = Object.entries(filters)
+    .filter(([column, filter]) => !getFilterError(filter, columnTypes[column] ?? null))
+    .map(([column, filter]) => createPredicate(column, filter));
+  if (!needle && predicates.length === 0) return entities;
+
+  // Die ETag-Zeichenkette würde bei kurzen Suchbegriffen in jeder Zeile treffen
+  const columns = needle ? getEntityColumns(entities).filter((column) => column !== "etag") : [];
+  return entities.filter((entity) =>
+    (!needle || columns.some((column) => getSearchText(entity, column).includes(needle)))
+    && predicates.every((predicate) => predicate(entity))
+  );
+}
+
+export function describeFilter(filter: ColumnFilter): string {
+  const label = FILTER_OPERATORS.find((operator) => operator.value === filter.operator)!.label;
+  switch (filter.operator) {
+    case "empty":
+    case "notEmpty":
+      return label;
+    case "range":
+      return `${filter.value.trim() || "…"} bis ${filter.valueTo.trim() || "…"}`;
+    default:
+      return `${label} "${filter.value}"`;
+  }
+}
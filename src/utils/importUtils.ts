@@ -0,0 +1,228 @@
+import type { EdmType } from "../types";
+import type { WritableEntity } from "../services/azureTableService";
+import { createProperty, EDM_TYPES, getEntityKey, inferEdmType, toEditorValue, toSdkValue, validateKey, validateProperty } from "./entityUtils";
+import { parseCsv, sniffDelimiter } from "./csvUtils";
+import { CSV_TYPE_SUFFIX, JSON_TYPE_SUFFIX, restoreCsvFormula } from "./exportUtils";
+
+export type ImportTarget = "partitionKey" | "rowKey" | "property" | "ignore";
+
+export interface ImportSource {
+  fileName: string;
+  format: "csv" | "json";
+  columns: string[];
+  rows: Record<string, unknown>[];
+  typeHints: Record<string, EdmType>;
+}
+
+export interface ColumnMapping {
+  source: string;
+  target: ImportTarget;
+  name: string;
+  type: EdmType;
+}
+
+export interface ImportRow {
+  // 1-basierte Datensatznummer, bei CSV inklusive Kopfzeile
+  line: number;
+  entity?: WritableEntity;
+  errors: string[];
+}
+
+export const IMPORT_TARGETS: { value: ImportTarget; label: string }[] = [
+  { value: "partitionKey", label: "PartitionKey" },
+  { value: "rowKey", label: "RowKey" },
+  { value: "property", label: "Eigenschaft" },
+  { value: "ignore", label: "Ignorieren" },
+];
+
+// Grenzen laut Azure-Dokumentation
+const MAX_PROPERTIES = 252;
+const MAX_ENTITY_BYTES = 1024 * 1024;
+const MAX_STRING_CHARS = 32 * 1024;
+const MAX_BINARY_BYTES = 64 * 1024;
+
+// Vom Service gesetzte Spalten, die beim Import nicht geschrieben werden können
+const IGNORED_COLUMNS = ["timestamp", "etag", "odata.etag"];
+
+function parseTypeAnnotation(value: unknown): EdmType | undefined {
+  if (typeof value !== "string") return undefined;
+  const type = value.replace(/^Edm\./, "") as EdmType;
+  return EDM_TYPES.includes(type) ? type : undefined;
+}
+
+function collectTypeHints(rows: Record<string, unknown>[], suffix: string): Record<string, EdmType> {
+  const hints: Record<string, EdmType> = {};
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row)) {
+      if (!key.endsWith(suffix) || hints[key.slice(0, -suffix.length)]) continue;
+      const type = parseTypeAnnotation(value);
+      if (type) hints[key.slice(0, -suffix.length)] = type;
+    }
+  }
+  return hints;
+}
+
+function parseCsvSource(fileName: string, text: string): ImportSource {
+  const [header, ...lines] = parseCsv(text, sniffDelimiter(text)?.delimiter ?? ",");
+  if (!header) throw new Error("Die Datei enthält keine Kopfzeile");
+  const headerNames = header.map((name) => name.trim());
+  const rows = lines.map((line) => Object.fromEntries(headerNames.map((name, i) => [name, line[i] ?? ""])));
+  return {
+    fileName,
+    format: "csv",
+    columns: headerNames.filter((name) => name && !name.endsWith(CSV_TYPE_SUFFIX)),
+    rows,
+    typeHints: collectTypeHints(rows, CSV_TYPE_SUFFIX),
+  };
+}
+
+function parseJsonSource(fileName: string, text: string, isNdjson: boolean): ImportSource {
+  let values: unknown[];
+  try {
+    values = isNdjson
+      ? text.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line))
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Ungültiges JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(values)) throw new Error("Die JSON-Datei muss ein Array von Objekten enthalten");
+  if (values.some((value) => typeof value !== "object" || value === null || Array.isArray(value))) {
+    throw new Error("Jeder Eintrag muss ein JSON-Objekt sein");
+  }
+
+  const rows = values as Record<string, unknown>[];
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!key.endsWith(JSON_TYPE_SUFFIX)) columns.add(key);
+    }
+  }
+  return { fileName, format: "json", columns: [...columns], rows, typeHints: collectTypeHints(rows, JSON_TYPE_SUFFIX) };
+}
+
+export function parseImportFile(fileName: string, content: string): ImportSource {
+  const text = content.replace(/^\uFEFF/, "");
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "json") return parseJsonSource(fileName, text, false);
+  if (extension === "ndjson" || extension === "jsonl") return parseJsonSource(fileName, text, true);
+  return parseCsvSource(fileName, text);
+}
+
+export function detectMappings(source: ImportSource): ColumnMapping[] {
+  return source.columns.map((column) => {
+    const lower = column.toLowerCase();
+    if (lower === "partitionkey") return { source: column, target: "partitionKey", name: "", type: "String" };
+    if (lower === "rowkey") return { source: column, target: "rowKey", name: "", type: "String" };
+    if (IGNORED_COLUMNS.includes(lower) || column.includes(".")) {
+      return { source: column, target: "ignore", name: column, type: "String" };
+    }
+    const sample = source.rows.find((row) => row[column] !== undefined && row[column] !== null && row[column] !== "");
+    const type = source.typeHints[column] ?? inferEdmType(sample?.[column]);
+    return { source: column, target: "property", name: column, type };
+  });
+}
+
+function estimateSize(name: string, value: unknown, type: EdmType): number {
+  // Näherung der Service-Berechnung: Namen und Strings als UTF-16, feste Größen für die übrigen Typen
+  const nameBytes = name.length * 2;
+  switch (type) {
+    case "String":
+      return nameBytes + String(value).length * 2 + 4;
+    case "Binary":
+      return nameBytes + Math.ceil((String(value).length * 3) / 4) + 4;
+    case "Guid":
+      return nameBytes + 16;
+    case "Boolean":
+      return nameBytes + 1;
+    case "Int32":
+      return nameBytes + 4;
+    default:
+      return nameBytes + 8;
+  }
+}
+
+export function buildImportRows(source: ImportSource, mappings: ColumnMapping[]): ImportRow[] {
+  const partitionKeyColumn = mappings.find((m) => m.target === "partitionKey")?.source;
+  const rowKeyColumn = mappings.find((m) => m.target === "rowKey")?.source;
+  const propertyMappings = mappings.filter((m) => m.target === "property");
+  const seenKeys = new Map<string, number>();
+  // Beim CSV-Export gegen Formeln geschützte Strings wieder in den Originalwert wandeln
+  const toText = (raw: unknown, type: EdmType) => {
+    const text = toEditorValue(raw);
+    return source.format === "csv" && type === "String" ? restoreCsvFormula(text) : text;
+  };
+
+  return source.rows.map((row, index) => {
+    const line = index + (source.format === "csv" ? 2 : 1);
+    const errors: string[] = [];
+    const partitionKey = partitionKeyColumn !== undefined ? toText(row[partitionKeyColumn] ?? "", "String") : "";
+    const rowKey = rowKeyColumn !== undefined ? toText(row[rowKeyColumn] ?? "", "String") : "";
+
+    if (partitionKeyColumn === undefined) errors.push("Keine Spalte als PartitionKey zugeordnet");
+    if (rowKeyColumn === undefined) errors.push("Keine Spalte als RowKey zugeordnet");
+    if (partitionKeyColumn !== undefined && partitionKey === "") errors.push("PartitionKey fehlt");
+    if (rowKeyColumn !== undefined && rowKey === "") errors.push("RowKey fehlt");
+    const keyError = validateKey(partitionKey, "PartitionKey") ?? validateKey(rowKey, "RowKey");
+    if (keyError) errors.push(keyError);
+
+    const key = getEntityKey({ partitionKey, rowKey });
+    const duplicateOf = seenKeys.get(key);
+    if (duplicateOf !== undefined) errors.push(`Schlüssel bereits in Zeile ${duplicateOf} vorhanden`);
+    else seenKeys.set(key, line);
+
+    const entity: WritableEntity = { partitionKey, rowKey };
+    let size = 4 + (partitionKey.length + rowKey.length) * 2;
+    let propertyCount = 0;
+
+    for (const mapping of propertyMappings) {
+      const raw = row[mapping.source];
+      if (raw === undefined || raw === null || raw === "") continue;
+
+      const name = mapping.name.trim();
+      const property = createProperty(name, mapping.type, toText(raw, mapping.type));
+      const error = validateProperty(property);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+      if (name in entity) {
+        errors.push(`Eigenschaft "${name}" ist mehrfach zugeordnet`);
+        continue;
+      }
+      if (mapping.type === "String" && property.value.length > MAX_STRING_CHARS) {
+        errors.push(`${name}: Strings dürfen höchstens ${MAX_STRING_CHARS} Zeichen lang sein`);
+      }
+      if (mapping.type === "Binary" && (property.value.length * 3) / 4 > MAX_BINARY_BYTES) {
+        errors.push(`${name}: Binary-Werte dürfen höchstens 64 KiB groß sein`);
+      }
+
+      entity[name] = toSdkValue(property);
+      size += estimateSize(name, property.value, mapping.type);
+      propertyCount++;
+    }
+
+    if (propertyCount > MAX_PROPERTIES) errors.push(`Mehr als ${MAX_PROPERTIES} Eigenschaften`);
+    if (size > MAX_ENTITY_BYTES) errors.push("Die Entität ist größer als 1 MiB");
+
+    return errors.length > 0 ? { line, errors } : { line, entity, errors };
+  });
+}
+
+// Transaktionen sind nur innerhalb einer Partition möglich
+export function groupIntoBatches<T extends { entity?: WritableEntity }>(rows: T[], batchSize: number): T[][] {
+  const partitions = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!row.entity) continue;
+    const partition = partitions.get(row.entity.partitionKey) ?? [];
+    partition.push(row);
+    partitions.set(row.entity.partitionKey, partition);
+  }
+
+  const batches: T[][] = [];
+  for (const partition of partitions.values()) {
+    for (let i = 0; i < partition.length; i += batchSize) {
+      batches.push(partition.slice(i, i + batchSize));
+    }
+  }
+  return batches;
+}
@@ -1,16 +1,5 @@
 import React from "react";
-
-export type ContentType = "json" | "csv" | "text";
-
-export interface ContentAnalysis {
-  type: ContentType;
-  isClickable: boolean;
-  parsed: unknown;
-  label: string;
-  labelColor: string;
-}
-
-const LONG_TEXT_THRESHOLD = 100;
+import { CsvParser, detectHeader, sniffDelimiter, type CsvTable } from "./csvUtils";
 
 export function tryParseJson(value: unknown): { isJson: boolean; parsed: unknown } {
   if (typeof value !== "string") {
@@ -32,99 +21,43 @@ export function tryParseJson(value: unknown): { isJson: boolean; parsed: unknown
   }
 }
 
-export function tryParseCsv(value: unknown): { isCsv: boolean; parsed: string[][] } {
+export function tryParseCsv(value: unknown): { isCsv: boolean; parsed: CsvTable | null } {
   if (typeof value !== "string") {
-    return { isCsv: false, parsed: [] };
+    return { isCsv: false, parsed: null };
   }
-  
+
   const trimmed = value.trim();
-  const lines = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
-  
-  // Mindestens 2 Zeilen und konsistente Spaltenanzahl
-  if (lines.length < 2) {
-    return { isCsv: false, parsed: [] };
-  }
-  
-  // Erkennung des Trennzeichens (Komma, Semikolon, Tab)
-  const delimiters = [",", ";", "\t"];
-  let bestDelimiter = ",";
-  let maxConsistency = 0;
-  
-  for (const delimiter of delimiters) {
-    const counts = lines.map(line => line.split(delimiter).length);
-    const firstCount = counts[0];
-    
-    // Mindestens 2 Spalten
-    if (firstCount < 2) continue;
-    
-    const consistent = counts.filter(c => c === firstCount).length;
-    if (consistent > maxConsistency) {
-      maxConsistency = consistent;
-      bestDelimiter = delimiter;
-    }
-  }
-  
-  // Mindestens 80% der Zeilen sollten konsistent sein
-  if (maxConsistency / lines.length < 0.8) {
-    return { isCsv: false, parsed: [] };
+  // Ohne Zeilenumbruch kann es keine zwei Zeilen geben
+  if (!/[\r\n]/.test(trimmed)) {
+    return { isCsv: false, parsed: null };
   }
-  
-  const parsed = lines.map(line => line.split(bestDelimiter).map(cell => cell.trim()));
-  const columnCount = parsed[0].length;
-  
-  // Alle Zeilen müssen gleiche Spaltenanzahl haben (mit Toleranz)
-  const validRows = parsed.filter(row => row.length === columnCount);
-  if (validRows.length / parsed.length < 0.8) {
-    return { isCsv: false, parsed: [] };
-  }
-  
-  return { isCsv: true, parsed: validRows };
-}
 
-export function analyzeContent(value: unknown): ContentAnalysis {
-  // JSON prüfen
-  const { isJson, parsed: jsonParsed } = tryParseJson(value);
-  if (isJson) {
-    return {
-      type: "json",
-      isClickable: true,
-      parsed: jsonParsed,
-      label: "JSON",
-      labelColor: "purple"
-    };
+  const sniffed = sniffDelimiter(trimmed);
+  // Mindestens 80% der Zeilen sollten die gleiche Spaltenanzahl haben
+  if (!sniffed || sniffed.consistency < 0.8) {
+    return { isCsv: false, parsed: null };
   }
-  
-  // CSV prüfen
-  const { isCsv, parsed: csvParsed } = tryParseCsv(value);
-  if (isCsv) {
-    return {
-      type: "csv",
-      isClickable: true,
-      parsed: csvParsed,
-      label: "CSV",
-      labelColor: "green"
-    };
+
+  const parser = new CsvParser(sniffed.delimiter);
+  const rows = parser.push(trimmed);
+  // Nicht geschlossene Anführungszeichen sprechen gegen CSV
+  if (parser.isInsideQuotes) {
+    return { isCsv: false, parsed: null };
   }
-  
-  // Langer Text prüfen
-  const strValue = String(value ?? "");
-  if (strValue.length > LONG_TEXT_THRESHOLD) {
-    return {
-      type: "text",
-      isClickable: true,
-      parsed: strValue,
-      label: "TEXT",
-      labelColor: "blue"
-    };
+  rows.push(...parser.finish());
+  if (rows.length < 2) {
+    return { isCsv: false, parsed: null };
   }
-  
-  // Normaler Wert
+
+  // Zeilen auf die Spaltenanzahl der ersten Zeile bringen, damit die Vorschau rechteckig bleibt
+  const columnCount = rows[0].length;
+  const normalized = rows.map((row) =>
+    row.length >= columnCount ? row.slice(0, columnCount) : [...row, ...Array<string>(columnCount - row.length).fill("")]
+  );
+
   return {
-    type: "text",
-    isClickable: false,
-    parsed: value,
-    label: "",
-    labelColor: ""
+    isCsv: true,
+    parsed: { delimiter: sniffed.delimiter, rows: normalized, hasHeader: detectHeader(normalized) },
   };
 }
 
@@ -209,3 +142,70 @@ export function highlightJson(json: unknown): React.ReactNode[] {
 
   return result;
 }
+
+export interface JsonNode {
+  path: string;
+  key: string | number | null;
+  value: unknown;
+  depth: number;
+  ancestors: string[];
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export function toJsonPath(parentPath: string, key: string | number): string {
+  if (typeof key === "number") return `${parentPath}[${key}]`;
+  return IDENTIFIER_PATTERN.test(key) ? `${parentPath}.${key}` : `${parentPath}['${key.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`;
+}
+
+export function isJsonContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === "object" && value !== null;
+}
+
+export function getJsonChildren(value: unknown): [string | number, unknown][] {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  return isJsonContainer(value) ? Object.entries(value) : [];
+}
+
+export function walkJson(value: unknown, visit: (node: JsonNode) => void) {
+  const walk = (node: JsonNode) => {
+    visit(node);
+    for (const [key, child] of getJsonChildren(node.value)) {
+      walk({
+        path: toJsonPath(node.path, key),
+        key,
+        value: child,
+        depth: node.depth + 1,
+        ancestors: [...node.ancestors, node.path],
+      });
+    }
+  };
+  walk({ path: "$", key: null, value, depth: 0, ancestors: [] });
+}
+
+// Pfade aller Objekte und Arrays oberhalb der angegebenen Tiefe
+export function getPathsToDepth(value: unknown, depth: number): Set<string> {
+  const paths = new Set<string>();
+  walkJson(value, (node) => {
+    if (node.depth < depth && isJsonContainer(node.value)) paths.add(node.path);
+  });
+  return paths;
+}
+
+// Treffer in Schlüsseln und einfachen Werten, ohne Beachtung der Groß-/Kleinschreibung
+export function searchJson(value: unknown, query: string): { matches: Set<string>; ancestors: Set<string> } {
+  const matches = new Set<string>();
+  const ancestors = new Set<string>();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { matches, ancestors };
+
+  walkJson(value, (node) => {
+    const keyMatches = node.key !== null && String(node.key).toLowerCase().includes(needle);
+    const valueMatches = !isJsonContainer(node.value) && String(node.value).toLowerCase().includes(needle);
+    if (keyMatches || valueMatches) {
+      matches.add(node.path);
+      for (const ancestor of node.ancestors) ancestors.add(ancestor);
+    }
+  });
+  return { matches, ancestors };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { QueryBuilderState, QueryCondition } from "../types";
+import { buildFilter, createBuilderState, createCondition, createPartitionQuery, getBuilderState } from "./odataUtils";
+
+function stateWith(...conditions: Partial<QueryCondition>[]): QueryBuilderState {
+  const state = createBuilderState();
+  state.groups[0].conditions = conditions.map((condition) => ({ ...createCondition(), ...condition }));
+  return state;
+}
+
+describe("buildFilter", () => {
+  it.each([
+    { name: "einfacher String", value: "abc", filter: "PartitionKey eq 'abc'" },
+    { name: "Hochkomma", value: "O'Brien", filter: "PartitionKey eq 'O''Brien'" },
+    { name: "Leerzeichen bleiben erhalten", value: " a b ", filter: "PartitionKey eq ' a b '" },
+    { name: "OData-Syntax im Wert", value: "x' or true or 'y", filter: "PartitionKey eq 'x'' or true or ''y'" },
+  ])("setzt Strings in Anführungszeichen: $name", ({ value, filter }) => {
+    expect(buildFilter(stateWith({ value }))).toEqual({ filter });
+  });
+});
+
+describe("buildFilter mit Zahlen", () => {
+  it.each([
+    { valueType: "number", value: "42", filter: "Count eq 42" },
+    { valueType: "number", value: "-1.5", filter: "Count eq -1.5" },
+    { valueType: "number", value: " 007 ", filter: "Count eq 7" },
+    { valueType: "int64", value: "9007199254740993", filter: "Count eq 9007199254740993L" },
+    { valueType: "int64", value: "-9223372036854775808", filter: "Count eq -9223372036854775808L" },
+  ] as const)("$valueType $value", ({ valueType, value, filter }) => {
+    expect(buildFilter(stateWith({ property: "Count", valueType, value }))).toEqual({ filter });
+  });
+
+  it.each([
+    { valueType: "number", value: "1e+21" },
+    { valueType: "number", value: "0.0000001" },
+    { valueType: "number", value: "9007199254740993" },
+    { valueType: "number", value: "abc" },
+    { valueType: "int64", value: "1.5" },
+    { valueType: "int64", value: "9223372036854775808" },
+  ] as const)("lehnt $valueType $value ab", ({ valueType, value }) => {
+    expect(buildFilter(stateWith({ property: "Count", valueType, value })).error).toBeTruthy();
+  });
+});
+
+describe("getBuilderState", () => {
+  it("übernimmt den gespeicherten Builder-Zustand", () => {
+    const query = createPartitionQuery("p1");
+    expect(getBuilderState(query)).toBe(query.builder);
+  });
+
+  it("öffnet Abfragen ohne Builder als Roh-Filter", () => {
+    const state = getBuilderState({ filter: "Count gt 5", select: ["RowKey", "PartitionKey", "Name"] });
+    expect(state).toMatchObject({ mode: "raw", rawFilter: "Count gt 5", select: "RowKey, PartitionKey, Name" });
+  });
+
+  it("startet ohne Abfrage mit dem leeren Builder", () => {
+    expect(getBuilderState(undefined).mode).toBe("builder");
+  });
+});
@@ -0,0 +1,265 @@
+import { odata } from "@azure/data-tables";
+import type { EntityQuery, QueryBuilderState, QueryCondition, QueryGroup, QueryOperator, QueryValueType } from "../types";
+
+export const QUERY_OPERATORS: { value: QueryOperator; label: string }[] = [
+  { value: "eq", label: "=" },
+  { value: "ne", label: "≠" },
+  { value: "gt", label: ">" },
+  { value: "ge", label: "≥" },
+  { value: "lt", label: "<" },
+  { value: "le", label: "≤" },
+];
+
+export const QUERY_VALUE_TYPES: { value: QueryValueType; label: string }[] = [
+  { value: "string", label: "String" },
+  { value: "number", label: "Zahl" },
+  { value: "int64", label: "Int64" },
+  { value: "boolean", label: "Boolean" },
+  { value: "datetime", label: "DateTime" },
+  { value: "guid", label: "Guid" },
+];
+
+// Systemeigenschaften heißen im SDK camelCase, in OData aber PascalCase
+const SYSTEM_PROPERTIES: Record<string, string> = {
+  partitionKey: "PartitionKey",
+  rowKey: "RowKey",
+  timestamp: "Timestamp",
+};
+
+const PROPERTY_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,254}$/;
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+let idCounter = 0;
+
+function nextId(prefix: string): string {
+  idCounter++;
+  return `${prefix}-${idCounter}`;
+}
+
+export function createCondition(property = "PartitionKey"): QueryCondition {
+  return { id: nextId("c"), property, operator: "eq", valueType: "string", value: "" };
+}
+
+export function createGroup(): QueryGroup {
+  return { id: nextId("g"), logic: "and", conditions: [createCondition()] };
+}
+
+export function createBuilderState(): QueryBuilderState {
+  return { mode: "builder", logic: "and", groups: [createGroup()], rawFilter: "", select: "" };
+}
+
+// Abfragen ohne Builder-Zustand (z. B. aus der URL) werden als Roh-Filter geöffnet
+export function getBuilderState(query?: EntityQuery): QueryBuilderState {
+  if (query?.builder) return query.builder;
+  if (!query?.filter && !query?.select) return createBuilderState();
+  return { ...createBuilderState(), mode: "raw", rawFilter: query.filter ?? "", select: query.select?.join(", ") ?? "" };
+}
+
+export function toODataProperty(property: string): string {
+  const trimmed = property.trim();
+  return SYSTEM_PROPERTIES[trimmed] ?? trimmed;
+}
+
+// Zahlen, die JavaScript nur gerundet oder in Exponentialschreibweise ausgibt, würden einen anderen Wert abfragen
+function toNumberLiteral(value: string): string | null {
+  const number = Number(value);
+  if (value === "" || !Number.isFinite(number)) return null;
+  const literal = String(number);
+  if (/e/i.test(literal)) return null;
+  if (INTEGER_PATTERN.test(value) && !Number.isSafeInteger(number)) return null;
+  return literal;
+}
+
+function toInt64Literal(value: string): string | null {
+  if (!INTEGER_PATTERN.test(value)) return null;
+  const int = BigInt(value);
+  if (int < INT64_MIN || int > INT64_MAX) return null;
+  return `${int}L`;
+}
+
+export function validateCondition(condition: QueryCondition): string | null {
+  const property = toODataProperty(condition.property);
+  if (!PROPERTY_NAME_PATTERN.test(property)) {
+    return `Ungültiger Eigenschaftsname: "${condition.property}"`;
+  }
+
+  const value = condition.value.trim();
+  switch (condition.valueType) {
+    case "number":
+      if (toNumberLiteral(value) === null) {
+        return INTEGER_PATTERN.test(value)
+          ? `"${condition.value}" ist als Zahl nicht exakt darstellbar, bitte Int64 verwenden`
+          : `"${condition.value}" ist keine gültige Zahl`;
+      }
+      return null;
+    case "int64":
+      if (toInt64Literal(value) === null) {
+        return `"${condition.value}" ist kein gültiger Int64-Wert`;
+      }
+      return null;
+    case "boolean":
+      if (value !== "true" && value !== "false") {
+        return `"${condition.value}" ist kein Boolean (true/false)`;
+      }
+      return null;
+    case "datetime":
+      if (value === "" || isNaN(new Date(value).getTime())) {
+        return `"${condition.value}" ist kein gültiges Datum`;
+      }
+      return null;
+    case "guid":
+      if (!GUID_PATTERN.test(value)) {
+        return `"${condition.value}" ist keine gültige Guid`;
+      }
+      return null;
+    case "string":
+      return null;
+  }
+}
+
+// odata`` setzt Anführungszeichen nur, wenn vor dem Wert Text steht; daher hier explizit
+function toStringLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function buildCondition(condition: QueryCondition): string {
+  const property = toODataProperty(condition.property);
+  const { operator } = condition;
+  const value = condition.value.trim();
+
+  // Eigenschaftsname und Operator sind validiert, Werte werden escaped
+  switch (condition.valueType) {
+    case "string":
+      return `${property} ${operator} ${toStringLiteral(condition.value)}`;
+    case "number":
+      return `${property} ${operator} ${toNumberLiteral(value)}`;
+    case "int64":
+      return `${property} ${operator} ${toInt64Literal(value)}`;
+    case "boolean":
+      return `${property} ${operator} ${value === "true"}`;
+    case "datetime":
+      return `${property} ${operator} ${odata`${new Date(value)}`}`;
+    case "guid":
+      return `${property} ${operator} guid${odata`'${value}'`}`;
+  }
+}
+
+function joinClauses(clauses: string[], logic: string): string {
+  if (clauses.length === 1) return clauses[0];
+  return clauses.map((clause) => `(${clause})`).join(` ${logic} `);
+}
+
+export function buildEntityKeyFilter(entity: { partitionKey: string; rowKey: string }): string {
+  return `PartitionKey eq ${toStringLiteral(entity.partitionKey)} and RowKey eq ${toStringLiteral(entity.rowKey)}`;
+}
+
+export function buildRowKeysFilter(partitionKey: string, rowKeys: string[]): string {
+  const rowKeyClauses = rowKeys.map((rowKey) => `RowKey eq ${toStringLiteral(rowKey)}`);
+  return `PartitionKey eq ${toStringLiteral(partitionKey)} and (${rowKeyClauses.join(" or ")})`;
+}
+
+// Abfrage einer einzelnen Partition, samt Builder-Zustand für das Abfrage-Panel
+export function createPartitionQuery(partitionKey: string): EntityQuery {
+  const builder = createBuilderState();
+  builder.groups[0].conditions[0].value = partitionKey;
+  return { filter: `PartitionKey eq ${toStringLiteral(partitionKey)}`, builder };
+}
+
+export function getPartitionFromFilter(filter?: string): string | undefined {
+  const match = filter?.match(/^PartitionKey eq '((?:[^']|'')*)'$/);
+  return match ? match[1].replace(/''/g, "'") : undefined;
+}
+
+export function buildFilter(state: QueryBuilderState): { filter?: string; error?: string } {
+  const groupClauses: string[] = [];
+
+  for (const group of state.groups) {
+    const conditionClauses: string[] = [];
+    for (const condition of group.conditions) {
+      const error = validateCondition(condition);
+      if (error) return { error };
+      conditionClauses.push(buildCondition(condition));
+    }
+    if (conditionClauses.length > 0) {
+      groupClauses.push(joinClauses(conditionClauses, group.logic));
+    }
+  }
+
+  if (groupClauses.length === 0) return {};
+  return { filter: joinClauses(groupClauses, state.logic) };
+}
+
+export function validateRawFilter(filter: string): string | null {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < filter.length; i++) {
+    const char = filter[i];
+    if (char === "'") {
+      // '' innerhalb eines Strings ist ein escaptes Hochkomma
+      if (inString && filter[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      inString = !inString;
+      continue;
+    }
+    if (inString) continue;
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth < 0) return "Schließende Klammer ohne öffnende Klammer";
+  }
+
+  if (inString) return "Nicht geschlossenes Hochkomma";
+  if (depth !== 0) return "Nicht geschlossene Klammer";
+  return null;
+}
+
+export function parseSelect(select: string): { properties: string[]; error?: string } {
+  const properties = select
+    .split(",")
+    .map((name) => toODataProperty(name))
+    .filter((name) => name.length > 0);
+
+  const invalid = properties.find((name) => !PROPERTY_NAME_PATTERN.test(name));
+  if (invalid) {
+    return { properties: [], error: `Ungültiger Eigenschaftsname in $select: "${invalid}"` };
+  }
+  return { properties };
+}
+
+export function buildEntityQuery(state: QueryBuilderState): { query?: EntityQuery; error?: string } {
+  let filter: string | undefined;
+
+  if (state.mode === "raw") {
+    const trimmed = state.rawFilter.trim();
+    const error = validateRawFilter(trimmed);
+    if (error) return { error };
+    filter = trimmed || undefined;
+  } else {
+    const result = buildFilter(state);
+    if (result.error) return { error: result.error };
+    filter = result.filter;
+  }
+
+  const { properties, error } = parseSelect(state.select);
+  if (error) return { error };
+
+  // Schlüssel werden immer mitgeladen, da die Zeilen darüber identifiziert werden
+  for (const key of ["RowKey", "PartitionKey"]) {
+    if (properties.length > 0 && !properties.includes(key)) {
+      properties.unshift(key);
+    }
+  }
+
+  return {
+    query: {
+      filter,
+      select: properties.length > 0 ? properties : undefined,
+      builder: state,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { AppState, SortKey, TableEntity } from "../types";
+
+// Adresse einer Ansicht im Hash, z. B. #profile=Prod&table=Orders&sort=Name,-Amount
+// Verbindungen werden nur über den Profilnamen referenziert, nie über den Connection String
+export interface AppRoute {
+  profile?: string;
+  table?: string;
+  filter?: string;
+  select?: string[];
+  sort: SortKey[];
+  entity?: { partitionKey: string; rowKey: string };
+}
+
+export const EMPTY_ROUTE: AppRoute = { sort: [] };
+
+export function parseRoute(hash: string): AppRoute {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const route: AppRoute = { sort: [] };
+  const get = (name: string) => params.get(name) || undefined;
+
+  route.profile = get("profile");
+  route.table = get("table");
+  route.filter = get("filter");
+  route.select = get("select")?.split(",").filter(Boolean);
+  route.sort = (get("sort")?.split(",") ?? [])
+    .filter((part) => part && part !== "-")
+    .map((part) => (part.startsWith("-") ? { column: part.slice(1), direction: "desc" } : { column: part, direction: "asc" }));
+
+  const partitionKey = params.get("pk");
+  const rowKey = params.get("rk");
+  if (partitionKey !== null && rowKey !== null) route.entity = { partitionKey, rowKey };
+  return route;
+}
+
+export function formatRoute(route: AppRoute): string {
+  const params = new URLSearchParams();
+  if (route.profile) params.set("profile", route.profile);
+  if (route.table) params.set("table", route.table);
+  if (route.filter) params.set("filter", route.filter);
+  if (route.select?.length) params.set("select", route.select.join(","));
+  if (route.sort.length) {
+    params.set("sort", route.sort.map((key) => (key.direction === "desc" ? `-${key.column}` : key.column)).join(","));
+  }
+  if (route.entity) {
+    params.set("pk", route.entity.partitionKey);
+    params.set("rk", route.entity.rowKey);
+  }
+  const query = params.toString();
+  return query ? `#${query}` : "";
+}
+
+// Sortierung und Auswahl ersetzen den History-Eintrag, alles andere erzeugt einen neuen
+export function isSameView(a: AppRoute, b: AppRoute): boolean {
+  return a.profile === b.profile && a.table === b.table && a.filter === b.filter
+    && (a.select ?? []).join(",") === (b.select ?? []).join(",");
+}
+
+// Liefert null für Zwischenzustände, die keine eigene Adresse haben
+export function getRouteForState(
+  state: AppState,
+  profile: string | undefined,
+  sort: SortKey[],
+  selectedEntity: TableEntity | null
+): AppRoute | null {
+  switch (state.status) {
+    case "disconnected":
+      return EMPTY_ROUTE;
+    case "tables-loaded":
+      return { profile, sort: [] };
+    case "loading-data":
+      return { profile, table: state.selectedTable, filter: state.query?.filter, select: state.query?.select, sort };
+    case "connected":
+      return {
+        profile,
+        table: state.tableName,
+        filter: state.query?.filter,
+        select: state.query?.select,
+        sort,
+        entity: selectedEntity ? { partitionKey: selectedEntity.partitionKey, rowKey: selectedEntity.rowKey } : undefined,
+      };
+    default:
+      return null;
+  }
+}
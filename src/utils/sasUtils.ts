@@ -0,0 +1,142 @@
+export interface SasInfo {
+  token: string;
+  isAccountSas: boolean;
+  expiry?: Date;
+  start?: Date;
+  permissions: string[];
+  services?: string;
+  resourceTypes?: string;
+  tableName?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface TableSasUrl {
+  endpoint: string;
+  tableName: string;
+  sas: SasInfo;
+}
+
+const ACCOUNT_PERMISSIONS: Record<string, string> = {
+  r: "Lesen",
+  w: "Schreiben",
+  d: "Löschen",
+  l: "Auflisten",
+  a: "Hinzufügen",
+  c: "Erstellen",
+  u: "Aktualisieren",
+  p: "Verarbeiten",
+};
+
+const TABLE_PERMISSIONS: Record<string, string> = {
+  r: "Abfragen",
+  a: "Hinzufügen",
+  u: "Aktualisieren",
+  d: "Löschen",
+};
+
+const EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function normalizeSasToken(token: string): string {
+  return token.trim().replace(/^\?/, "");
+}
+
+export function parseSasToken(token: string): SasInfo {
+  const normalized = normalizeSasToken(token);
+  const params = new URLSearchParams(normalized);
+  const isAccountSas = params.has("ss") || params.has("srt");
+  const permissionNames = isAccountSas ? ACCOUNT_PERMISSIONS : TABLE_PERMISSIONS;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const expiry = parseDate(params.get("se"));
+  const start = parseDate(params.get("st"));
+  const permissions = [...(params.get("sp") ?? "")].map((p) => permissionNames[p] ?? p);
+
+  if (!params.get("sig")) errors.push("Signatur (sig) fehlt");
+  if (!params.get("se")) {
+    errors.push("Ablaufdatum (se) fehlt");
+  } else if (!expiry) {
+    errors.push(`Ungültiges Ablaufdatum: ${params.get("se")}`);
+  } else if (expiry.getTime() < Date.now()) {
+    errors.push(`SAS ist am ${expiry.toLocaleString("de-DE")} abgelaufen`);
+  } else if (expiry.getTime() - Date.now() < EXPIRY_WARNING_MS) {
+    warnings.push(`SAS läuft am ${expiry.toLocaleString("de-DE")} ab`);
+  }
+  if (start && start.getTime() > Date.now()) {
+    warnings.push(`SAS ist erst ab ${start.toLocaleString("de-DE")} gültig`);
+  }
+  if (!params.get("sp")) errors.push("Berechtigungen (sp) fehlen");
+
+  const services = params.get("ss") ?? undefined;
+  if (isAccountSas && services && !services.includes("t")) {
+    errors.push("SAS gilt nicht für den Table-Dienst (ss enthält kein t)");
+  }
+
+  return {
+    token: normalized,
+    isAccountSas,
+    expiry,
+    start,
+    permissions,
+    services,
+    resourceTypes: params.get("srt") ?? undefined,
+    tableName: params.get("tn") ?? undefined,
+    errors,
+    warnings,
+  };
+}
+
+// Ohne Service-Ebene (srt=s) und List-Berechtigung kann listTables nicht aufgerufen werden
+export function canListTables(sas: SasInfo): boolean {
+  if (!sas.isAccountSas) return false;
+  return (sas.resourceTypes ?? "").includes("s") && sas.permissions.includes(ACCOUNT_PERMISSIONS.l);
+}
+
+export function parseAccountUrl(value: string): { endpoint?: string; error?: string } {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return { error: "Die Account-URL muss mit https:// beginnen" };
+    }
+    return { endpoint: `${url.protocol}//${url.host}${url.pathname.replace(/\/$/, "")}` };
+  } catch {
+    return { error: "Ungültige Account-URL" };
+  }
+}
+
+export function parseTableSasUrl(value: string): { result?: TableSasUrl; error?: string } {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return { error: "Ungültige URL" };
+  }
+
+  if (!url.search) return { error: "Die URL enthält kein SAS-Token" };
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  const sas = parseSasToken(url.search);
+  // Azurite verwendet Pfad-URLs (http://127.0.0.1:10002/devstoreaccount1/Tabelle)
+  const tableName = segments.pop()?.replace(/\(\)$/, "") ?? sas.tableName;
+  if (!tableName) return { error: "Die URL enthält keinen Tabellennamen" };
+
+  const basePath = segments.length > 0 ? `/${segments.join("/")}` : "";
+  return {
+    result: {
+      endpoint: `${url.protocol}//${url.host}${basePath}`,
+      tableName,
+      sas,
+    },
+  };
+}
+
+export function buildSasConnectionString(endpoint: string, sasToken: string): string {
+  return `TableEndpoint=${endpoint};SharedAccessSignature=${normalizeSasToken(sasToken)}`;
+}
@@ -0,0 +1,96 @@
+import type { EdmType, TableEntity } from "../types";
+import { getEntityColumns, getPropertyType, isEmpty } from "./entityUtils";
+import { getValueRange } from "./sortUtils";
+
+export interface TypeCount {
+  type: EdmType;
+  count: number;
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface PropertyStats {
+  name: string;
+  // Entitäten mit nicht leerem Wert
+  count: number;
+  missingCount: number;
+  fillRate: number;
+  // Nach Häufigkeit absteigend, der erste Eintrag ist der vorherrschende Typ
+  types: TypeCount[];
+  // Typen, die nur in einem kleinen Teil der Werte vorkommen
+  outlierTypes: TypeCount[];
+  distinctCount: number;
+  min?: unknown;
+  max?: unknown;
+  topValues: ValueCount[];
+}
+
+export interface SchemaAnalysis {
+  entityCount: number;
+  properties: PropertyStats[];
+}
+
+const TOP_VALUE_COUNT = 5;
+// Ein Typ gilt als Ausreißer, wenn er bei höchstens 10 % der Werte einer Eigenschaft vorkommt
+const OUTLIER_SHARE = 0.1;
+// Binärwerte und lange Texte würden die häufigsten Werte nur aufblähen
+const MAX_TOP_VALUE_LENGTH = 200;
+
+function toValueKey(value: unknown): string {
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function analyzeProperty(entities: TableEntity[], name: string): PropertyStats {
+  const typeCounts = new Map<EdmType, number>();
+  const valueCounts = new Map<string, number>();
+  let count = 0;
+
+  for (const entity of entities) {
+    const value = entity[name];
+    if (isEmpty(value)) continue;
+    count++;
+    const type = getPropertyType(entity, name);
+    typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1);
+    const key = toValueKey(value);
+    valueCounts.set(key, (valueCounts.get(key) ?? 0) + 1);
+  }
+
+  const types = [...typeCounts].map(([type, typeCount]) => ({ type, count: typeCount })).sort((a, b) => b.count - a.count);
+  const outlierTypes = types.slice(1).filter((type) => type.count / count <= OUTLIER_SHARE);
+  const topValues = [...valueCounts]
+    .filter(([value, valueCount]) => valueCount > 1 && value.length <= MAX_TOP_VALUE_LENGTH)
+    .map(([value, valueCount]) => ({ value, count: valueCount }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUE_COUNT);
+  // Minimum und Maximum nur für einheitlich typisierte Spalten, sonst vergleicht man Äpfel mit Birnen
+  const range = types.length === 1 && types[0].type !== "Binary" ? getValueRange(entities, name) : null;
+
+  return {
+    name,
+    count,
+    missingCount: entities.length - count,
+    fillRate: entities.length > 0 ? count / entities.length : 0,
+    types,
+    outlierTypes,
+    distinctCount: valueCounts.size,
+    min: range?.min,
+    max: range?.max,
+    topValues,
+  };
+}
+
+// Baut auf der Spaltenermittlung der Tabelle auf und wertet jede Eigenschaft über alle geladenen Entitäten aus
+export function analyzeSchema(entities: TableEntity[]): SchemaAnalysis {
+  const columns = getEntityColumns(entities).filter((column) => column !== "etag");
+  return {
+    entityCount: entities.length,
+    properties: columns.map((column) => analyzeProperty(entities, column)),
+  };
+}
+
+export function hasSchemaIssues(stats: PropertyStats): boolean {
+  return stats.outlierTypes.length > 0 || (stats.missingCount > 0 && stats.count > 0);
+}
@@ -0,0 +1,166 @@
+import type { EdmType, NullPlacement, SortKey, TableEntity } from "../types";
+import { getPropertyType, isEmpty } from "./entityUtils";
+
+export type SortKind = "number" | "bigint" | "date" | "boolean" | "string";
+
+type SortValue = number | bigint | boolean | string;
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const GERMAN_DATE_PATTERN = /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+// ISO und alles, was Date.parse versteht, zusätzlich deutsches Format wie 31.12.2024 13:45
+export function parseDate(text: string): number | null {
+  const german = text.trim().match(GERMAN_DATE_PATTERN);
+  if (german) {
+    const [, day, month, year, hour = "0", minute = "0", second = "0"] = german;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)).getTime();
+  }
+  // Reine Zahlen würde Date.parse als Jahreszahl oder Zeitstempel deuten
+  if (NUMBER_PATTERN.test(text.trim())) return null;
+  const time = Date.parse(text);
+  return isNaN(time) ? null : time;
+}
+
+function detectStringKind(text: string): SortKind {
+  const trimmed = text.trim();
+  if (INTEGER_PATTERN.test(trimmed) && !Number.isSafeInteger(Number(trimmed))) return "bigint";
+  if (NUMBER_PATTERN.test(trimmed)) return "number";
+  if (trimmed === "true" || trimmed === "false") return "boolean";
+  if (parseDate(trimmed) !== null) return "date";
+  return "string";
+}
+
+function getValueKind(value: unknown, type: EdmType): SortKind {
+  switch (type) {
+    case "Int32":
+    case "Double":
+      return "number";
+    case "Int64":
+      return "bigint";
+    case "DateTime":
+      return "date";
+    case "Boolean":
+      return "boolean";
+    case "String":
+      return detectStringKind(String(value));
+    default:
+      return "string";
+  }
+}
+
+// Eine Spalte wird nur dann typisiert verglichen, wenn alle Werte dieselbe Art haben
+export function detectSortKind(entities: TableEntity[], column: string): SortKind {
+  const kinds = new Set<SortKind>();
+  let allIntegers = true;
+  for (const entity of entities) {
+    const value = entity[column];
+    if (isEmpty(value)) continue;
+    kinds.add(getValueKind(value, getPropertyType(entity, column)));
+    if (!INTEGER_PATTERN.test(String(value).trim())) allIntegers = false;
+  }
+  if (kinds.size === 1) return [...kinds][0];
+  // Kleine und große Ganzzahlen gemischt, z. B. Int32 neben Int64; mit Nachkommastellen genügt number
+  if (kinds.size === 2 && kinds.has("number") && kinds.has("bigint")) return allIntegers ? "bigint" : "number";
+  return "string";
+}
+
+function toSortValue(value: unknown, kind: SortKind): SortValue | null {
+  const text = String(value).trim();
+  switch (kind) {
+    case "number": {
+      const number = Number(text);
+      return isNaN(number) ? null : number;
+    }
+    case "bigint":
+      try {
+        return BigInt(text);
+      } catch {
+        return null;
+      }
+    case "date":
+      return parseDate(text);
+    case "boolean":
+      return value === true || text === "true";
+    default:
+      return text;
+  }
+}
+
+function compareSortValues(a: SortValue, b: SortValue): number {
+  if (typeof a === "string" && typeof b === "string") return collator.compare(a, b);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Kleinster und größter Wert mit derselben Vergleichslogik wie beim Sortieren
+export function getValueRange(entities: TableEntity[], column: string): { min: unknown; max: unknown } | null {
+  const kind = detectSortKind(entities, column);
+  let range: { min: unknown; max: unknown; minValue: SortValue; maxValue: SortValue } | null = null;
+  for (const entity of entities) {
+    const value = entity[column];
+    if (isEmpty(value)) continue;
+    const sortValue = toSortValue(value, kind);
+    if (sortValue === null) continue;
+    if (!range) {
+      range = { min: value, max: value, minValue: sortValue, maxValue: sortValue };
+      continue;
+    }
+    if (compareSortValues(sortValue, range.minValue) < 0) {
+      range.min = value;
+      range.minValue = sortValue;
+    }
+    if (compareSortValues(sortValue, range.maxValue) > 0) {
+      range.max = value;
+      range.maxValue = sortValue;
+    }
+  }
+  return range && { min: range.min, max: range.max };
+}
+
+// Array.prototype.sort ist stabil, bei Gleichstand bleibt die geladene Reihenfolge erhalten
+export function sortEntities(entities: TableEntity[], keys: SortKey[], nullPlacement: NullPlacement): TableEntity[] {
+  if (keys.length === 0) return entities;
+
+  // Sortwerte vorab berechnen statt in jedem Vergleich erneut zu parsen
+  const columns = keys.map((key) => {
+    const kind = detectSortKind(entities, key.column);
+    const values = new Map<TableEntity, SortValue | null>();
+    for (const entity of entities) {
+      const value = entity[key.column];
+      values.set(entity, isEmpty(value) ? null : toSortValue(value, kind));
+    }
+    return { values, factor: key.direction === "asc" ? 1 : -1 };
+  });
+  const nullOrder = nullPlacement === "first" ? -1 : 1;
+
+  return [...entities].sort((a, b) => {
+    for (const { values, factor } of columns) {
+      const aValue = values.get(a)!;
+      const bValue = values.get(b)!;
+      if (aValue === null && bValue === null) continue;
+      if (aValue === null) return nullOrder;
+      if (bValue === null) return -nullOrder;
+      const comparison = compareSortValues(aValue, bValue);
+      if (comparison !== 0) return comparison * factor;
+    }
+    return 0;
+  });
+}
+
+// Klick sortiert nur nach dieser Spalte, Umschalt+Klick ergänzt sie als weiteren Schlüssel
+export function toggleSortKey(keys: SortKey[], column: string, isMulti: boolean): SortKey[] {
+  const existing = keys.find((key) => key.column === column);
+  if (!isMulti) {
+    if (existing && keys.length === 1) {
+      return [{ column, direction: existing.direction === "asc" ? "desc" : "asc" }];
+    }
+    return [{ column, direction: "asc" }];
+  }
+  if (!existing) return [...keys, { column, direction: "asc" }];
+  // Reihenfolge aufsteigend → absteigend → entfernt
+  if (existing.direction === "asc") {
+    return keys.map((key) => (key.column === column ? { column, direction: "desc" } : key));
+  }
+  return keys.filter((key) => key.column !== column);
+}
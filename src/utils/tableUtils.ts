@@ -0,0 +1,15 @@
+// Namensregeln laut Azure-Dokumentation: 3–63 Zeichen, nur Buchstaben und Ziffern, beginnt mit einem Buchstaben
+const TABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9]{2,62}$/;
+const RESERVED_TABLE_NAMES = ["tables"];
+
+export function validateTableName(name: string, existingTables: string[]): string | null {
+  if (!name) return "Bitte einen Tabellennamen eingeben";
+  if (name.length < 3 || name.length > 63) return "Tabellennamen müssen 3 bis 63 Zeichen lang sein";
+  if (!/^[A-Za-z]/.test(name)) return "Tabellennamen müssen mit einem Buchstaben beginnen";
+  if (!TABLE_NAME_PATTERN.test(name)) return "Tabellennamen dürfen nur Buchstaben und Ziffern enthalten";
+  const lower = name.toLowerCase();
+  if (RESERVED_TABLE_NAMES.includes(lower)) return `"${name}" ist ein reservierter Name`;
+  // Tabellennamen sind unabhängig von Groß- und Kleinschreibung eindeutig
+  if (existingTables.some((table) => table.toLowerCase() === lower)) return `Die Tabelle "${name}" existiert bereits`;
+  return null;
+}
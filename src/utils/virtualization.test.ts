@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { PROPERTY_TYPES, type TableEntity } from "../types";
+import { analyzeCell } from "../detectors";
+import { getVisibleRange, getVisibleRangeByOffsets } from "./virtualization";
+
+const ROW_HEIGHT = 45;
+const VIEWPORT_HEIGHT = 700;
+const OVERSCAN = 10;
+const ENTITY_COUNT = 100_000;
+
+const COLUMNS = ["partitionKey", "rowKey", "Name", "Count", "Payload", "Lines", "Active", "Note"];
+
+function createEntities(count: number): TableEntity[] {
+  return Array.from({ length: count }, (_, i) => ({
+    partitionKey: `p-${i % 100}`,
+    rowKey: String(i).padStart(6, "0"),
+    Name: `Entität ${i}`,
+    Count: i,
+    Payload: JSON.stringify({ id: i, tags: ["a", "b"], nested: { value: i * 2 } }),
+    Lines: `a,b,c\n${i},${i + 1},${i + 2}\n${i},${i},${i}`,
+    Active: i % 2 === 0,
+    Note: i % 3 === 0 ? "x".repeat(300) : "kurz",
+    [PROPERTY_TYPES]: { Count: "Int32", Active: "Boolean" },
+  }));
+}
+
+describe("getVisibleRange", () => {
+  it("rendert unabhängig von der Tabellengröße nur ein Fenster", () => {
+    const maxWindow = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + 1 + 2 * OVERSCAN;
+    for (let scrollTop = 0; scrollTop < ENTITY_COUNT * ROW_HEIGHT; scrollTop += 9973) {
+      const range = getVisibleRange(scrollTop, VIEWPORT_HEIGHT, ROW_HEIGHT, ENTITY_COUNT, OVERSCAN);
+      expect(range.end - range.start).toBeLessThanOrEqual(maxWindow);
+      expect(range.start).toBeGreaterThanOrEqual(0);
+      expect(range.end).toBeLessThanOrEqual(ENTITY_COUNT);
+    }
+  });
+
+  it("endet am Tabellenende", () => {
+    const range = getVisibleRange(ENTITY_COUNT * ROW_HEIGHT, VIEWPORT_HEIGHT, ROW_HEIGHT, ENTITY_COUNT, OVERSCAN);
+    expect(range.end).toBe(ENTITY_COUNT);
+  });
+
+  it("liefert für leere Tabellen einen leeren Bereich", () => {
+    expect(getVisibleRange(0, VIEWPORT_HEIGHT, ROW_HEIGHT, 0, OVERSCAN)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe("getVisibleRangeByOffsets", () => {
+  it("findet die sichtbaren Spalten bei unterschiedlichen Breiten", () => {
+    const widths = Array.from({ length: 200 }, (_, i) => 100 + (i % 5) * 40);
+    const offsets = [0];
+    for (const width of widths) offsets.push(offsets[offsets.length - 1] + width);
+
+    const range = getVisibleRangeByOffsets(offsets[50] + 10, 1000, offsets, 0);
+    expect(range.start).toBe(50);
+    expect(offsets[range.end]).toBeGreaterThanOrEqual(offsets[50] + 10 + 1000);
+    expect(offsets[range.end - 1]).toBeLessThan(offsets[50] + 10 + 1000);
+  });
+});
+
+describe("Benchmark: Scrollen durch 100.000 Entitäten", () => {
+  const entities = createEntities(ENTITY_COUNT);
+
+  it("analysiert jede Zelle nur einmal", () => {
+    const first = analyzeCell(entities[0], "Payload");
+    expect(first.type).toBe("json");
+    expect(analyzeCell(entities[0], "Payload")).toBe(first);
+  });
+
+  it("bleibt beim Durchscrollen im Zeitbudget", () => {
+    // Großzügige Grenze für langsame CI-Maschinen; ohne Fenster und Cache dauert derselbe Durchlauf ein Vielfaches
+    const budgetMs = 3000;
+    const scrollHeight = ENTITY_COUNT * ROW_HEIGHT;
+    const started = performance.now();
+
+    for (let step = 0; step <= 400; step++) {
+      const scrollTop = Math.round((scrollHeight * step) / 400);
+      const range = getVisibleRange(scrollTop, VIEWPORT_HEIGHT, ROW_HEIGHT, entities.length, OVERSCAN);
+      for (let row = range.start; row < range.end; row++) {
+        for (const column of COLUMNS) {
+          analyzeCell(entities[row], column);
+        }
+      }
+    }
+    // Zurückscrollen trifft nur noch den Cache
+    for (let step = 400; step >= 0; step--) {
+      const range = getVisibleRange(Math.round((scrollHeight * step) / 400), VIEWPORT_HEIGHT, ROW_HEIGHT, entities.length, OVERSCAN);
+      for (let row = range.start; row < range.end; row++) {
+        for (const column of COLUMNS) analyzeCell(entities[row], column);
+      }
+    }
+
+    const elapsed = performance.now() - started;
+    expect(elapsed).toBeLessThan(budgetMs);
+  });
+});
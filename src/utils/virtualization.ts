@@ -0,0 +1,52 @@
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+export function getVisibleRange(
+  offset: number,
+  viewportSize: number,
+  itemSize: number,
+  itemCount: number,
+  overscan: number
+): VisibleRange {
+  if (itemCount === 0) return { start: 0, end: 0 };
+
+  const first = Math.floor(offset / itemSize);
+  const visibleCount = Math.ceil(viewportSize / itemSize) + 1;
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(itemCount, first + visibleCount + overscan),
+  };
+}
+
+// Für unterschiedlich große Elemente: offsets[i] ist der Anfang von Element i, offsets[count] das Ende des letzten
+export function getVisibleRangeByOffsets(
+  offset: number,
+  viewportSize: number,
+  offsets: number[],
+  overscan: number
+): VisibleRange {
+  const itemCount = offsets.length - 1;
+  if (itemCount <= 0) return { start: 0, end: 0 };
+
+  const findIndex = (position: number) => {
+    let low = 0;
+    let high = itemCount - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (offsets[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+
+  const first = findIndex(offset);
+  const last = findIndex(offset + viewportSize);
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(itemCount, last + 1 + overscan),
+  };
+}
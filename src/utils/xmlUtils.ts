@@ -0,0 +1,65 @@
+const INDENT = "  ";
+
+export function tryParseXml(value: string): Document | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("<") || !trimmed.endsWith(">")) return null;
+  const document = new DOMParser().parseFromString(trimmed, "application/xml");
+  return document.getElementsByTagName("parsererror").length > 0 ? null : document;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(text: string): string {
+  return escapeText(text).replace(/"/g, "&quot;");
+}
+
+function formatNode(node: Node, depth: number, lines: string[]) {
+  const indent = INDENT.repeat(depth);
+  switch (node.nodeType) {
+    case Node.ELEMENT_NODE: {
+      const element = node as Element;
+      const attributes = Array.from(element.attributes)
+        .map((attribute) => ` ${attribute.name}="${escapeAttribute(attribute.value)}"`)
+        .join("");
+      const children = Array.from(element.childNodes).filter(
+        (child) => child.nodeType !== Node.TEXT_NODE || child.textContent?.trim()
+      );
+      if (children.length === 0) {
+        lines.push(`${indent}<${element.tagName}${attributes}/>`);
+      } else if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+        // Reiner Textinhalt bleibt auf einer Zeile
+        lines.push(`${indent}<${element.tagName}${attributes}>${escapeText(children[0].textContent!.trim())}</${element.tagName}>`);
+      } else {
+        lines.push(`${indent}<${element.tagName}${attributes}>`);
+        for (const child of children) formatNode(child, depth + 1, lines);
+        lines.push(`${indent}</${element.tagName}>`);
+      }
+      break;
+    }
+    case Node.TEXT_NODE:
+      lines.push(`${indent}${escapeText(node.textContent!.trim())}`);
+      break;
+    case Node.CDATA_SECTION_NODE:
+      lines.push(`${indent}<![CDATA[${node.textContent}]]>`);
+      break;
+    case Node.COMMENT_NODE:
+      lines.push(`${indent}<!--${node.textContent}-->`);
+      break;
+    case Node.PROCESSING_INSTRUCTION_NODE: {
+      const instruction = node as ProcessingInstruction;
+      lines.push(`${indent}<?${instruction.target} ${instruction.data}?>`);
+      break;
+    }
+  }
+}
+
+export function formatXml(document: Document, source: string): string {
+  const lines: string[] = [];
+  // Die XML-Deklaration ist kein Knoten im DOM und wird aus dem Original übernommen
+  const declaration = source.trim().match(/^<\?xml[^?]*\?>/);
+  if (declaration) lines.push(declaration[0]);
+  for (const child of Array.from(document.childNodes)) formatNode(child, 0, lines);
+  return lines.join("\n");
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -8,4 +9,7 @@ export default defineConfig({
   server: {
     port: 15173,
   },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
 })